@@ -266,7 +266,7 @@ export class Tokenizer {
  * @param {String} str Address field
  * @return {Array} An array of address objects
  */
-export function addressparser(str, options?: any): { name?: string; address?: string }[] {
+export function addressparser(str, options?: any): { name?: string; address?: string; group?: any[] }[] {
 	options = options || {};
 
 	let tokenizer = new Tokenizer(str);
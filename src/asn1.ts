@@ -0,0 +1,197 @@
+import { decode } from './charset';
+import { InvalidInputError } from './errors';
+
+/**
+ * Element of a DER or BER encoding (X.690)
+ */
+export interface Asn1Node {
+	// first identifier octet, e.g. 0x30 for a SEQUENCE or 0xa0 for [0]
+	tag: number;
+	constructed: boolean;
+	// contents, of constructed strings (BER) their segments joined
+	content: Uint8Array;
+	// the whole element, i.e. identifier, length and contents
+	raw: Uint8Array;
+	children: Asn1Node[];
+}
+
+const MAX_DEPTH = 64;
+
+/**
+ * Reads an element at an offset
+ *
+ * @param {Uint8Array} bytes
+ * @param {Number} offset
+ * @param {Number} depth Nesting depth, limited
+ * @return {Asn1Node}
+ */
+function _read(bytes: Uint8Array, offset: number, depth: number): Asn1Node {
+	if (depth > MAX_DEPTH) {
+		throw new InvalidInputError('ASN.1 nested too deeply!');
+	}
+	const start = offset;
+	if (offset + 2 > bytes.length) {
+		throw new InvalidInputError('Truncated ASN.1 element!');
+	}
+	const tag = bytes[offset++];
+	const constructed = (tag & 0x20) !== 0;
+	if ((tag & 0x1f) === 0x1f) {
+		//High tag numbers, in base 128
+		while (offset < bytes.length && bytes[offset] & 0x80) {
+			offset++;
+		}
+		offset++;
+	}
+	let length = bytes[offset++];
+	let indefinite = false;
+	if (length === 0x80) {
+		indefinite = constructed;
+		if (!indefinite) {
+			throw new InvalidInputError('Indefinite length of a primitive ASN.1 element!');
+		}
+	} else if (length & 0x80) {
+		const count = length & 0x7f;
+		if (count > 4 || offset + count > bytes.length) {
+			throw new InvalidInputError('Invalid ASN.1 length!');
+		}
+		length = 0;
+		for (let i = 0; i < count; i++) {
+			length = length * 256 + bytes[offset++];
+		}
+	}
+
+	const children = [] as Asn1Node[];
+	let end: number;
+	if (indefinite) {
+		//Up to the end-of-contents octets
+		let position = offset;
+		while (position + 1 < bytes.length && (bytes[position] || bytes[position + 1])) {
+			const child = _read(bytes, position, depth + 1);
+			children.push(child);
+			position += child.raw.length;
+		}
+		if (position + 1 >= bytes.length) {
+			throw new InvalidInputError('Truncated ASN.1 element!');
+		}
+		end = position + 2;
+	} else {
+		end = offset + length;
+		if (end > bytes.length) {
+			throw new InvalidInputError('Truncated ASN.1 element!');
+		}
+		if (constructed) {
+			let position = offset;
+			while (position < end) {
+				const child = _read(bytes.subarray(0, end), position, depth + 1);
+				children.push(child);
+				position += child.raw.length;
+			}
+		}
+	}
+
+	let content = bytes.subarray(offset, indefinite ? end - 2 : end);
+	//Constructed OCTET STRING of BER, e.g. the content of opaque signed messages in segments
+	if (tag === 0x24) {
+		const segments = [] as Uint8Array[];
+		const collect = (node: Asn1Node) => (node.constructed ? node.children.forEach(collect) : segments.push(node.content));
+		children.forEach(collect);
+		content = new Uint8Array(segments.reduce((sum, segment) => sum + segment.length, 0));
+		segments.reduce((position, segment) => {
+			content.set(segment, position);
+			return position + segment.length;
+		}, 0);
+	}
+	return { tag, constructed, content, raw: bytes.subarray(start, end), children };
+}
+
+/**
+ * Reads a DER or BER encoded element, e.g. a certificate or CMS content info
+ *
+ * @param {Uint8Array} bytes
+ * @return {Asn1Node} throws an InvalidInputError if the encoding is invalid
+ */
+export function readAsn1(bytes: Uint8Array): Asn1Node {
+	return _read(bytes, 0, 0);
+}
+
+/**
+ * @param {Asn1Node} node OBJECT IDENTIFIER
+ * @return {String} Dotted form, e.g. '1.2.840.113549.1.7.2', empty if no OBJECT IDENTIFIER
+ */
+export function asn1Oid(node?: Asn1Node): string {
+	if (!node || node.tag !== 0x06 || !node.content.length) {
+		return '';
+	}
+	const content = node.content;
+	const parts = [Math.min(Math.floor(content[0] / 40), 2), content[0] - Math.min(Math.floor(content[0] / 40), 2) * 40];
+	let value = 0;
+	for (let i = 1; i < content.length; i++) {
+		value = value * 128 + (content[i] & 0x7f);
+		if (!(content[i] & 0x80)) {
+			parts.push(value);
+			value = 0;
+		}
+	}
+	return parts.join('.');
+}
+
+/**
+ * @param {Asn1Node} node UTCTime or GeneralizedTime
+ * @return {Date|undefined}
+ */
+export function asn1Time(node?: Asn1Node): Date | undefined {
+	if (!node || (node.tag !== 0x17 && node.tag !== 0x18)) {
+		return undefined;
+	}
+	const text = decode(node.content, 'us-ascii');
+	const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?(Z|[+-]\d{4})?$/.exec(text);
+	if (!match) {
+		return undefined;
+	}
+	let year = parseInt(match[1], 10);
+	if (node.tag === 0x17) {
+		//RFC 5280 section 4.1.2.5.1
+		year += year < 50 ? 2000 : 1900;
+	}
+	let time = Date.UTC(
+		year,
+		parseInt(match[2], 10) - 1,
+		parseInt(match[3], 10),
+		parseInt(match[4], 10),
+		parseInt(match[5], 10),
+		parseInt(match[6] || '0', 10)
+	);
+	const zone = match[7];
+	if (zone && zone !== 'Z') {
+		const minutes = parseInt(zone.substring(1, 3), 10) * 60 + parseInt(zone.substring(3), 10);
+		time -= (zone.charAt(0) === '-' ? -1 : 1) * minutes * 60000;
+	}
+	return new Date(time);
+}
+
+/**
+ * @param {Asn1Node} node A string type, e.g. UTF8String, PrintableString, IA5String or BMPString
+ * @return {String}
+ */
+export function asn1String(node?: Asn1Node): string {
+	if (!node) {
+		return '';
+	}
+	if (node.tag === 0x1e) {
+		return decode(node.content, 'utf-16be');
+	}
+	//T61String is taken as latin1
+	return decode(node.content, node.tag === 0x14 ? 'iso-8859-1' : 'utf-8');
+}
+
+/**
+ * @param {Uint8Array} bytes
+ * @return {String} Lower case hexadecimal digits
+ */
+export function toHex(bytes: Uint8Array): string {
+	let hex = '';
+	for (let i = 0; i < bytes.length; i++) {
+		hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+	}
+	return hex;
+}
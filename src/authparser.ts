@@ -0,0 +1,283 @@
+import { HeaderCollection } from './headers';
+import type { ArcSeal, ArcSet, AuthenticationResult, AuthenticationResults, DkimSignature, EmlAuthentication, KeyValue } from './interface';
+
+/**
+ * Headers parsed by `getAuthentication`
+ */
+export const AUTHENTICATION_HEADERS = [
+	'Authentication-Results',
+	'DKIM-Signature',
+	'ARC-Seal',
+	'ARC-Message-Signature',
+	'ARC-Authentication-Results',
+];
+
+/**
+ * Splits a header value at the separators outside of quoted strings and comments
+ *
+ * @param {String} str Unfolded header value
+ * @param {String} separator e.g. ';'
+ * @return {Array}
+ */
+function _split(str: string, separator: string): string[] {
+	const parts = [] as string[];
+	let current = '';
+	let quoted = false;
+	let depth = 0;
+	for (let i = 0; i < str.length; i++) {
+		const chr = str.charAt(i);
+		if ((quoted || depth) && chr === '\\' && i + 1 < str.length) {
+			current += chr + str.charAt(++i);
+			continue;
+		}
+		if (chr === '"' && !depth) {
+			quoted = !quoted;
+		} else if (chr === '(' && !quoted) {
+			depth++;
+		} else if (chr === ')' && !quoted && depth) {
+			depth--;
+		} else if (chr === separator && !quoted && !depth) {
+			parts.push(current);
+			current = '';
+			continue;
+		}
+		current += chr;
+	}
+	parts.push(current);
+	return parts;
+}
+
+/**
+ * Removes the comments of a header value part, which may be nested
+ *
+ * @param {String} str
+ * @return {Object} The text with comments replaced by a space and the outermost comments without parentheses
+ */
+function _extractComments(str: string): { text: string; comments: string[] } {
+	const comments = [] as string[];
+	let text = '';
+	let comment = '';
+	let quoted = false;
+	let depth = 0;
+	for (let i = 0; i < str.length; i++) {
+		const chr = str.charAt(i);
+		if (depth) {
+			if (chr === '\\' && i + 1 < str.length) {
+				comment += str.charAt(++i);
+				continue;
+			}
+			if (chr === '(') {
+				depth++;
+			} else if (chr === ')' && !--depth) {
+				comments.push(comment.trim());
+				comment = '';
+				text += ' ';
+				continue;
+			}
+			comment += chr;
+			continue;
+		}
+		if (chr === '"') {
+			quoted = !quoted;
+		} else if (chr === '(' && !quoted) {
+			depth++;
+			continue;
+		}
+		text += chr;
+	}
+	return { text, comments };
+}
+
+/**
+ * Removes the quotes of a quoted-string and its backslash escapes
+ *
+ * @param {String} str
+ * @return {String}
+ */
+function _unquote(str: string): string {
+	if (str.length > 1 && str.charAt(0) === '"' && str.charAt(str.length - 1) === '"') {
+		return str.substring(1, str.length - 1).replace(/\\(.)/g, '$1');
+	}
+	return str;
+}
+
+/**
+ * Parses an RFC 6376 tag-value list as used by DKIM-Signature and the ARC-* headers, whitespace in values is removed
+ *
+ * @param {String} str e.g. 'v=1; a=rsa-sha256; d=example.com; s=selector1; h=From:To; bh=...; b=...'
+ * @return {KeyValue} Tag names as they are, e.g. { v: '1', a: 'rsa-sha256', ... }
+ */
+export function parseTagList(str: string): KeyValue {
+	const tags: KeyValue = {};
+	(str || '').split(';').forEach((part) => {
+		const eq = part.indexOf('=');
+		if (eq < 0) {
+			return;
+		}
+		const name = part.substring(0, eq).trim();
+		if (name && !tags.hasOwnProperty(name)) {
+			tags[name] = part.substring(eq + 1).replace(/\s+/g, '');
+		}
+	});
+	return tags;
+}
+
+/**
+ * Parses a DKIM-Signature (RFC 6376) or ARC-Message-Signature (RFC 8617) header
+ *
+ * @param {String} value Header value
+ * @return {DkimSignature}
+ */
+export function parseDkimSignature(value: string): DkimSignature {
+	const tags = parseTagList(value);
+	const canonicalization = (tags['c'] || 'simple/simple').toLowerCase().split('/');
+	const signature: DkimSignature = {
+		version: tags['v'],
+		algorithm: (tags['a'] || '').toLowerCase(),
+		canonicalization: { header: canonicalization[0] || 'simple', body: canonicalization[1] || 'simple' },
+		domain: tags['d'] || '',
+		selector: tags['s'] || '',
+		headers: tags['h'] ? tags['h'].split(':').filter((name: string) => !!name) : [],
+		bodyHash: tags['bh'] || '',
+		signature: tags['b'] || '',
+		tags,
+		raw: value,
+	};
+	if (tags['i']) {
+		//Agent or user identifier in DKIM-Signature, instance in ARC-Message-Signature
+		if (/^\d+$/.test(tags['i'])) {
+			signature.instance = parseInt(tags['i'], 10);
+		} else {
+			signature.identity = tags['i'];
+		}
+	}
+	if (/^\d+$/.test(tags['l'] || '')) {
+		signature.length = parseInt(tags['l'], 10);
+	}
+	if (/^\d+$/.test(tags['t'] || '')) {
+		signature.timestamp = parseInt(tags['t'], 10);
+	}
+	if (/^\d+$/.test(tags['x'] || '')) {
+		signature.expiration = parseInt(tags['x'], 10);
+	}
+	return signature;
+}
+
+/**
+ * Parses an ARC-Seal header (RFC 8617)
+ *
+ * @param {String} value Header value
+ * @return {ArcSeal}
+ */
+export function parseArcSeal(value: string): ArcSeal {
+	const tags = parseTagList(value);
+	const seal: ArcSeal = {
+		instance: parseInt(tags['i'], 10) || 0,
+		algorithm: (tags['a'] || '').toLowerCase(),
+		chainValidation: (tags['cv'] || '').toLowerCase(),
+		domain: tags['d'] || '',
+		selector: tags['s'] || '',
+		signature: tags['b'] || '',
+		tags,
+		raw: value,
+	};
+	if (/^\d+$/.test(tags['t'] || '')) {
+		seal.timestamp = parseInt(tags['t'], 10);
+	}
+	return seal;
+}
+
+/**
+ * Parses an Authentication-Results (RFC 8601) or ARC-Authentication-Results (RFC 8617) header, e.g.
+ * 'mx.example.org; dkim=pass header.d=example.com header.s=selector1; spf=pass (sender permitted) smtp.mailfrom=example.com'
+ *
+ * @param {String} value Header value
+ * @return {AuthenticationResults} The authserv-id and the results, property names are `ptype.property`, e.g. 'header.d'
+ */
+export function parseAuthenticationResults(value: string): AuthenticationResults {
+	const parts = _split((value || '').replace(/\r?\n[ \t]*/g, ' '), ';');
+	const results: AuthenticationResults = { authservId: '', results: [], raw: value };
+
+	//ARC-Authentication-Results starts with the instance
+	let head = _extractComments(parts.shift() || '').text.trim();
+	const instance = /^i\s*=\s*(\d+)$/i.exec(head);
+	if (instance) {
+		results.instance = parseInt(instance[1], 10);
+		head = _extractComments(parts.shift() || '').text.trim();
+	}
+	const id = head.split(/\s+/);
+	results.authservId = _unquote(id[0] || '');
+	if (/^\d+$/.test(id[1] || '')) {
+		results.version = parseInt(id[1], 10);
+	}
+
+	parts.forEach((part) => {
+		const { text, comments } = _extractComments(part);
+		//`name=value` pairs, quoted values may contain spaces, e.g. reason="signature verified"
+		const tokens = text.replace(/\s*=\s*/g, '=').match(/[^\s=]+=(?:"(?:[^"\\]|\\.)*"|\S*)|\S+/g) || [];
+		const match = /^([^=/]+)(?:\/(\d+))?=(.*)$/.exec(tokens.shift() || '');
+		if (!match) {
+			//'none' or garbage
+			return;
+		}
+		const result: AuthenticationResult = {
+			method: match[1].toLowerCase(),
+			result: _unquote(match[3]).toLowerCase(),
+			properties: {},
+		};
+		if (match[2]) {
+			result.version = parseInt(match[2], 10);
+		}
+		if (comments.length) {
+			result.comment = comments.join(' ');
+		}
+		tokens.forEach((token) => {
+			const eq = token.indexOf('=');
+			if (eq < 0) {
+				return;
+			}
+			const name = token.substring(0, eq).toLowerCase();
+			const propertyValue = _unquote(token.substring(eq + 1));
+			if (name === 'reason') {
+				result.reason = propertyValue;
+			} else {
+				result.properties[name] = propertyValue;
+			}
+		});
+		results.results.push(result);
+	});
+
+	return results;
+}
+
+/**
+ * Gets the parsed Authentication-Results, DKIM-Signature and ARC sets of a message.
+ * ARC sets are ordered by instance, sets missing a header have it undefined.
+ *
+ * @param {KeyValue} headers `ParsedEmlJson.headers` or `ReadedEmlJson.headers`
+ * @return {EmlAuthentication}
+ */
+export function getAuthentication(headers: KeyValue): EmlAuthentication {
+	const collection = HeaderCollection.from(headers);
+	const sets: { [instance: number]: ArcSet } = {};
+	const getSet = (instance: number) => (sets[instance] = sets[instance] || { instance });
+	collection.getAll('ARC-Seal').forEach((value) => {
+		const seal = parseArcSeal(value);
+		getSet(seal.instance).seal = seal;
+	});
+	collection.getAll('ARC-Message-Signature').forEach((value) => {
+		const signature = parseDkimSignature(value);
+		getSet(signature.instance || 0).messageSignature = signature;
+	});
+	collection.getAll('ARC-Authentication-Results').forEach((value) => {
+		const results = parseAuthenticationResults(value);
+		getSet(results.instance || 0).authenticationResults = results;
+	});
+	return {
+		authenticationResults: collection.getAll('Authentication-Results').map(parseAuthenticationResults),
+		dkimSignatures: collection.getAll('DKIM-Signature').map(parseDkimSignature),
+		arc: Object.keys(sets)
+			.map((instance) => sets[parseInt(instance, 10)])
+			.sort((a, b) => a.instance - b.instance),
+	};
+}
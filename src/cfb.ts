@@ -0,0 +1,236 @@
+import { InvalidInputError } from './errors';
+import type { CfbEntry } from './interface';
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+//Special sector numbers, MS-CFB section 2.1
+const MAX_SECTOR = 0xfffffffa;
+const END_OF_CHAIN = 0xfffffffe;
+const NO_STREAM = 0xffffffff;
+
+/**
+ * Reader of Compound File Binary files (MS-CFB), also known as OLE2 structured storage, e.g. Outlook .msg files.
+ * Entries are read when the file is opened, stream content when it is read.
+ */
+export class CompoundFile {
+	// the root storage with its storages and streams
+	root: CfbEntry;
+	private _bytes: Uint8Array;
+	private _view: DataView;
+	private _sectorSize: number;
+	private _miniSectorSize: number;
+	private _miniStreamCutoff: number;
+	private _fat: number[];
+	private _miniFat: number[];
+	private _miniStream?: Uint8Array;
+	//First sectors of the entries
+	private _starts = new Map<CfbEntry, number>();
+
+	/**
+	 * @param {Uint8Array|ArrayBuffer} data Content of the file
+	 */
+	constructor(data: Uint8Array | ArrayBuffer) {
+		const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+		if (!(bytes instanceof Uint8Array) || bytes.length < 512 || SIGNATURE.some((value, i) => bytes[i] !== value)) {
+			throw new InvalidInputError('Not a compound file!');
+		}
+		this._bytes = bytes;
+		this._view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const view = this._view;
+		this._sectorSize = 1 << view.getUint16(0x1e, true);
+		this._miniSectorSize = 1 << view.getUint16(0x20, true);
+		this._miniStreamCutoff = view.getUint32(0x38, true);
+		if (this._sectorSize !== 512 && this._sectorSize !== 4096) {
+			throw new InvalidInputError('Unsupported sector size ' + this._sectorSize + '!');
+		}
+
+		//The FAT sectors are listed in the header and the DIFAT chain
+		const fatSectors = [] as number[];
+		const fatCount = view.getUint32(0x2c, true);
+		for (let i = 0; i < 109 && fatSectors.length < fatCount; i++) {
+			fatSectors.push(view.getUint32(0x4c + i * 4, true));
+		}
+		let difat = view.getUint32(0x44, true);
+		const perSector = this._sectorSize / 4 - 1;
+		for (let guard = 0; difat <= MAX_SECTOR && fatSectors.length < fatCount && guard < this._sectorCount(); guard++) {
+			const offset = this._offset(difat);
+			for (let i = 0; i < perSector && fatSectors.length < fatCount; i++) {
+				fatSectors.push(view.getUint32(offset + i * 4, true));
+			}
+			difat = view.getUint32(offset + perSector * 4, true);
+		}
+		this._fat = this._readSectorTable(fatSectors);
+		this._miniFat = this._readSectorTable(this._chain(view.getUint32(0x3c, true)));
+
+		this.root = this._readDirectory(this._read(view.getUint32(0x30, true)));
+	}
+
+	/**
+	 * Gets the content of a stream
+	 * @param {CfbEntry} entry
+	 * @returns {Uint8Array} empty for storages
+	 */
+	read(entry: CfbEntry): Uint8Array {
+		const start = this._starts.get(entry);
+		if (typeof start !== 'number' || entry.type !== 'stream') {
+			return new Uint8Array(0);
+		}
+		if (entry.size < this._miniStreamCutoff) {
+			const miniStream = this._miniStream || (this._miniStream = this._read(this._starts.get(this.root) as number, this.root.size));
+			const content = new Uint8Array(entry.size);
+			let position = 0;
+			for (const sector of this._chain(start, this._miniFat)) {
+				const offset = sector * this._miniSectorSize;
+				const length = Math.min(this._miniSectorSize, entry.size - position, Math.max(miniStream.length - offset, 0));
+				content.set(miniStream.subarray(offset, offset + length), position);
+				position += length;
+				if (position >= entry.size) {
+					break;
+				}
+			}
+			return content;
+		}
+		return this._read(start, entry.size);
+	}
+
+	/**
+	 * Gets a child of a storage by name, case-insensitive like in the file
+	 * @param {CfbEntry} storage
+	 * @param {String} name
+	 * @returns {CfbEntry|undefined}
+	 */
+	child(storage: CfbEntry, name: string): CfbEntry | undefined {
+		const lower = name.toLowerCase();
+		return storage.children.find((child) => child.name.toLowerCase() === lower);
+	}
+
+	/**
+	 * @returns {Number} Number of sectors in the file
+	 */
+	private _sectorCount(): number {
+		return Math.floor(this._bytes.length / this._sectorSize);
+	}
+
+	/**
+	 * @param {Number} sector
+	 * @returns {Number} Offset of the sector, after the header
+	 */
+	private _offset(sector: number): number {
+		return (sector + 1) * this._sectorSize;
+	}
+
+	/**
+	 * Reads the sector numbers of a FAT or mini FAT
+	 * @param {Number[]} sectors Sectors of the table
+	 * @returns {Number[]}
+	 */
+	private _readSectorTable(sectors: number[]): number[] {
+		const table = [] as number[];
+		sectors.forEach((sector) => {
+			const offset = this._offset(sector);
+			for (let i = 0; i < this._sectorSize && offset + i + 4 <= this._bytes.length; i += 4) {
+				table.push(this._view.getUint32(offset + i, true));
+			}
+		});
+		return table;
+	}
+
+	/**
+	 * Follows a sector chain
+	 * @param {Number} start First sector
+	 * @param {Number[]} fat FAT or mini FAT
+	 * @returns {Number[]} The sectors in their order, a loop ends the chain
+	 */
+	private _chain(start: number, fat: number[] = this._fat): number[] {
+		const chain = [] as number[];
+		const seen: { [sector: number]: boolean } = {};
+		let sector = start;
+		while (sector <= MAX_SECTOR && !seen[sector]) {
+			seen[sector] = true;
+			chain.push(sector);
+			//The table of a truncated file may end early
+			sector = sector < fat.length ? fat[sector] : END_OF_CHAIN;
+		}
+		return chain;
+	}
+
+	/**
+	 * Reads a chain of sectors
+	 * @param {Number} start First sector
+	 * @param {Number} size Size of the content, all sectors of the chain if missing
+	 * @returns {Uint8Array}
+	 */
+	private _read(start: number, size?: number): Uint8Array {
+		const chain = this._chain(start);
+		const length = typeof size === 'number' ? size : chain.length * this._sectorSize;
+		const content = new Uint8Array(length);
+		let position = 0;
+		for (const sector of chain) {
+			const offset = this._offset(sector);
+			const part = this._bytes.subarray(offset, Math.min(offset + this._sectorSize, offset + length - position));
+			content.set(part, position);
+			position += part.length;
+			if (position >= length) {
+				break;
+			}
+		}
+		return position < length ? content.subarray(0, position) : content;
+	}
+
+	/**
+	 * Reads the directory entries into a tree
+	 * @param {Uint8Array} directory Content of the directory stream
+	 * @returns {CfbEntry} The root storage
+	 */
+	private _readDirectory(directory: Uint8Array): CfbEntry {
+		const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+		const raw = [] as { entry: CfbEntry; left: number; right: number; child: number; start: number }[];
+		for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+			const nameLength = Math.min(view.getUint16(offset + 64, true), 64);
+			let name = '';
+			//The length in bytes includes the terminating null character
+			for (let i = 0; i + 1 < nameLength; i += 2) {
+				const code = view.getUint16(offset + i, true);
+				if (!code) {
+					break;
+				}
+				name += String.fromCharCode(code);
+			}
+			const type = directory[offset + 66];
+			raw.push({
+				entry: {
+					name,
+					type: type === 5 ? 'root' : type === 1 ? 'storage' : type === 2 ? 'stream' : 'unknown',
+					size: view.getUint32(offset + 120, true),
+					children: [],
+				},
+				left: view.getUint32(offset + 68, true),
+				right: view.getUint32(offset + 72, true),
+				child: view.getUint32(offset + 76, true),
+				start: view.getUint32(offset + 116, true),
+			});
+		}
+		if (!raw.length || raw[0].entry.type !== 'root') {
+			throw new InvalidInputError('Compound file without root entry!');
+		}
+		raw.forEach((item) => this._starts.set(item.entry, item.start));
+
+		//The children of a storage are a red-black tree of siblings, taken in order
+		const visited: { [index: number]: boolean } = {};
+		const collect = (index: number, children: CfbEntry[]) => {
+			if (index === NO_STREAM || index >= raw.length || visited[index]) {
+				return;
+			}
+			visited[index] = true;
+			const item = raw[index];
+			collect(item.left, children);
+			children.push(item.entry);
+			if (item.entry.type === 'storage') {
+				collect(item.child, item.entry.children);
+			}
+			collect(item.right, children);
+		};
+		visited[0] = true;
+		collect(raw[0].child, raw[0].entry.children);
+		return raw[0].entry;
+	}
+}
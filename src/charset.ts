@@ -19,6 +19,22 @@ export const arr2str = (arr: Uint8Array) => {
 	return strs.join('');
 };
 
+/**
+ * Converts a string with one char per byte, e.g. from `arr2str`, back into an Uint8Array
+ *
+ * @param {String} str Binary string
+ * @return {Uint8Array} Bytes of the string
+ */
+export const str2arr = (str: string): Uint8Array => {
+	const arr = new Uint8Array(str.length);
+
+	for (let i = 0; i < str.length; i++) {
+		arr[i] = str.charCodeAt(i) & 0xff;
+	}
+
+	return arr;
+};
+
 /**
  * Decodes a string from Uint8Array to an unicode string using specified encoding
  *
@@ -43,6 +59,42 @@ export function decode(buf: Uint8Array, fromCharset = 'utf-8'): string {
 	return arr2str(buf); // all else fails, treat it as binary
 }
 
+/**
+ * Gets the charset of a Windows code page, e.g. of PR_INTERNET_CPID in Outlook messages
+ *
+ * @param {Number} codepage e.g. 1252
+ * @return {String} Charset for `decode`, e.g. 'windows-1252', 'utf-8' if unknown
+ */
+export function getCodepageCharset(codepage: number): string {
+	const charsets: { [codepage: number]: string } = {
+		874: 'windows-874',
+		932: 'shift_jis',
+		936: 'gbk',
+		949: 'euc-kr',
+		950: 'big5',
+		1200: 'utf-16le',
+		1201: 'utf-16be',
+		10000: 'macintosh',
+		20127: 'us-ascii',
+		20866: 'koi8-r',
+		21866: 'koi8-u',
+		50220: 'iso-2022-jp',
+		50221: 'iso-2022-jp',
+		50222: 'iso-2022-jp',
+		51932: 'euc-jp',
+		51949: 'euc-kr',
+		54936: 'gb18030',
+		65001: 'utf-8',
+	};
+	if (codepage >= 1250 && codepage <= 1258) {
+		return 'windows-' + codepage;
+	}
+	if (codepage >= 28591 && codepage <= 28605) {
+		return 'iso-8859-' + (codepage - 28590);
+	}
+	return charsets[codepage] || 'utf-8';
+}
+
 /**
  * Convert a string from specific encoding to UTF-8 Uint8Array
  *
@@ -0,0 +1,153 @@
+import type { ParsedDate } from './interface';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * Obsolete zone names of RFC 5322 section 4.3 and UTC, in minutes east of UTC
+ */
+const ZONES: { [zone: string]: number } = {
+	UT: 0,
+	UTC: 0,
+	GMT: 0,
+	Z: 0,
+	EST: -5 * 60,
+	EDT: -4 * 60,
+	CST: -6 * 60,
+	CDT: -5 * 60,
+	MST: -7 * 60,
+	MDT: -6 * 60,
+	PST: -8 * 60,
+	PDT: -7 * 60,
+};
+
+/**
+ * Replaces comments, which may be nested, by a space
+ *
+ * @param {String} str
+ * @return {String}
+ */
+function _stripComments(str: string): string {
+	let result = '';
+	let depth = 0;
+	for (let i = 0; i < str.length; i++) {
+		const chr = str.charAt(i);
+		if (chr === '\\' && depth) {
+			i++;
+		} else if (chr === '(') {
+			depth++;
+		} else if (chr === ')' && depth) {
+			if (!--depth) {
+				result += ' ';
+			}
+		} else if (!depth) {
+			result += chr;
+		}
+	}
+	return result;
+}
+
+/**
+ * Gets the offset of a zone in minutes east of UTC
+ *
+ * @param {String} zone e.g. '+0100', '-07:00', 'PDT' or a military zone
+ * @return {Number|undefined}
+ */
+function _parseZone(zone: string): number | undefined {
+	const match = /^([+-])(\d{2}):?(\d{2})$/.exec(zone);
+	if (match) {
+		const offset = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+		return match[1] === '-' ? -offset : offset;
+	}
+	const name = zone.toUpperCase();
+	if (ZONES.hasOwnProperty(name)) {
+		return ZONES[name];
+	}
+	//The meaning of military zones was reversed in RFC 822, RFC 5322 has them as -0000, i.e. unknown
+	if (/^[A-IK-Y]$/.test(name)) {
+		return 0;
+	}
+	return undefined;
+}
+
+/**
+ * Gets the month index of a month name
+ *
+ * @param {String} month e.g. 'Sep' or 'September'
+ * @return {Number} 0-11 or -1
+ */
+function _parseMonth(month: string): number {
+	return month.length >= 3 ? MONTHS.indexOf(month.substring(0, 3).toLowerCase()) : -1;
+}
+
+/**
+ * Parses an RFC 5322 date-time including its obsolete syntax, i.e. comments, two-digit years, missing weekdays, obsolete
+ * and military zones, as well as the asctime() format, e.g. 'Thu, 29 Sep 22 12:22 (UTC) EDT' or 'Thu Sep 29 12:22:20 2022'
+ *
+ * @param {String} str Value of a Date, Resent-Date or Received header (the part after the last semicolon)
+ * @return {ParsedDate|null} UTC timestamp and original offset, null if the value is not a date
+ */
+export function parseDate(str: string): ParsedDate | null {
+	if (!str || typeof str !== 'string') {
+		return null;
+	}
+	const tokens = _stripComments(str.replace(/\r?\n/g, ' '))
+		.replace(/,/g, ' ')
+		.replace(/\s*:\s*/g, ':')
+		.replace(/\b(\d{1,2})-([a-z]{3,})-(\d{2,4})\b/i, '$1 $2 $3')
+		.trim()
+		.split(/\s+/);
+
+	//Optional day-of-week
+	if (tokens.length && /^[a-z]{3,}$/i.test(tokens[0]) && DAYS.indexOf(tokens[0].substring(0, 3).toLowerCase()) >= 0) {
+		tokens.shift();
+	}
+
+	let day: string, month: string, year: string, time: string, zone: string | undefined;
+	if (/^\d{1,2}$/.test(tokens[0] || '')) {
+		//day month year time [zone]
+		[day, month, year, time, zone] = tokens;
+	} else if (/^\d{1,2}$/.test(tokens[1] || '') && /:/.test(tokens[2] || '')) {
+		//asctime: month day time year [zone]
+		[month, day, time, year, zone] = tokens;
+	} else {
+		return null;
+	}
+
+	const monthIndex = _parseMonth(month || '');
+	const timeMatch = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(time || '');
+	if (monthIndex < 0 || !timeMatch || !/^\d{2,4}$/.test(year || '')) {
+		return null;
+	}
+
+	let fullYear = parseInt(year, 10);
+	if (year.length === 2) {
+		fullYear += fullYear < 50 ? 2000 : 1900;
+	} else if (year.length === 3) {
+		fullYear += 1900;
+	}
+	const dayOfMonth = parseInt(day, 10);
+	const hours = parseInt(timeMatch[1], 10);
+	const minutes = parseInt(timeMatch[2], 10);
+	//Leap seconds are taken as the last second of the minute
+	const seconds = Math.min(parseInt(timeMatch[3] || '0', 10), 59);
+	if (dayOfMonth < 1 || dayOfMonth > 31 || hours > 23 || minutes > 59) {
+		return null;
+	}
+
+	//A missing or unknown zone is taken as UTC
+	const offset = (zone && _parseZone(zone)) || 0;
+	const timestamp = Date.UTC(fullYear, monthIndex, dayOfMonth, hours, minutes, seconds) - offset * 60000;
+	return { date: new Date(timestamp), timestamp, offset };
+}
+
+/**
+ * Gets the date of a Received header, i.e. the date-time after the last semicolon
+ *
+ * @param {String} received Value of a Received header
+ * @return {ParsedDate|null}
+ */
+export function getReceivedDate(received: string): ParsedDate | null {
+	const index = (received || '').lastIndexOf(';');
+	return index < 0 ? null : parseDate(received.substring(index + 1));
+}
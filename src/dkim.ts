@@ -0,0 +1,234 @@
+import { Base64 } from 'js-base64';
+import { parseDkimSignature, parseTagList } from './authparser';
+import { arr2str, encode, str2arr } from './charset';
+import { EmlParseError } from './errors';
+import { HeaderCollection } from './headers';
+import type { DkimOptions, DkimSignature, DkimVerification, HeaderLine } from './interface';
+
+/**
+ * Canonicalizes a header line for signing (RFC 6376 section 3.4.1 and 3.4.2)
+ *
+ * @param {HeaderLine} line Header line with its raw (folded) text
+ * @param {String} method 'simple' or 'relaxed'
+ * @return {String} Canonical header without the trailing CRLF
+ */
+function _canonicalizeHeader(line: HeaderLine, method: string): string {
+	if (method === 'simple') {
+		return line.raw;
+	}
+	const colon = line.raw.indexOf(':');
+	const value = line.raw
+		.substring(colon + 1)
+		.replace(/\r?\n/g, '')
+		.replace(/[ \t]+/g, ' ')
+		.trim();
+	return line.raw.substring(0, colon).trim().toLowerCase() + ':' + value;
+}
+
+/**
+ * Canonicalizes a body for hashing (RFC 6376 section 3.4.3 and 3.4.4)
+ *
+ * @param {String} body Binary string with CRLF line breaks
+ * @param {String} method 'simple' or 'relaxed'
+ * @return {String} Binary string
+ */
+function _canonicalizeBody(body: string, method: string): string {
+	if (method === 'simple') {
+		return body.replace(/(\r\n)*$/, '') + '\r\n';
+	}
+	body = body
+		.replace(/[ \t]+(?=\r\n|$)/g, '')
+		.replace(/[ \t]+/g, ' ')
+		.replace(/(\r\n)*$/, '');
+	return body ? body + '\r\n' : '';
+}
+
+/**
+ * Selects the signed header lines, the last occurrence of a name is taken first (RFC 6376 section 5.4.2)
+ *
+ * @param {HeaderLine[]} lines Header lines of the message
+ * @param {String[]} names h= tag
+ * @return {HeaderLine[]}
+ */
+function _selectHeaders(lines: HeaderLine[], names: string[]): HeaderLine[] {
+	const used = [] as HeaderLine[];
+	const selected = [] as HeaderLine[];
+	names.forEach((name) => {
+		const lower = name.trim().toLowerCase();
+		for (let i = lines.length - 1; i >= 0; i--) {
+			if (lines[i].name.toLowerCase() === lower && used.indexOf(lines[i]) < 0) {
+				used.push(lines[i]);
+				selected.push(lines[i]);
+				return;
+			}
+		}
+		//Nonexistent headers are signed as the empty string
+	});
+	return selected;
+}
+
+/**
+ * Empties the value of the b= tag of a DKIM-Signature header line, including the whitespace around it, everything
+ * else is kept as it is (RFC 6376 section 3.5)
+ *
+ * @param {String} raw Header line with its raw (folded) text
+ * @return {String}
+ */
+function _emptySignature(raw: string): string {
+	const colon = raw.indexOf(':');
+	let found = false;
+	const tags = raw
+		.substring(colon + 1)
+		.split(';')
+		.map((tag) => {
+			const eq = tag.indexOf('=');
+			if (found || eq < 0 || tag.substring(0, eq).trim() !== 'b') {
+				return tag;
+			}
+			found = true;
+			return tag.substring(0, eq + 1);
+		});
+	return raw.substring(0, colon + 1) + tags.join(';');
+}
+
+/**
+ * Verifies the signature of the signed header data with the key of the key record
+ *
+ * @param {SubtleCrypto} subtle
+ * @param {String} keyType 'rsa' or 'ed25519'
+ * @param {String} publicKey p= tag of the key record, base64
+ * @param {String} signature b= tag, base64
+ * @param {Uint8Array} data Canonicalized signed headers
+ * @return {Promise<Boolean>} rejects if the key or signature is invalid
+ */
+function _verifySignature(subtle: SubtleCrypto, keyType: string, publicKey: string, signature: string, data: Uint8Array): Promise<boolean> {
+	//Invalid base64 rejects as well
+	return Promise.resolve().then(() => {
+		const keyData = Base64.toUint8Array(publicKey);
+		const signatureData = Base64.toUint8Array(signature);
+		if (keyType === 'ed25519') {
+			//RFC 8463, the SHA-256 hash of the data is signed
+			return Promise.all([subtle.importKey('raw', keyData, { name: 'Ed25519' }, false, ['verify']), subtle.digest('SHA-256', data)]).then(
+				([cryptoKey, hash]) => subtle.verify({ name: 'Ed25519' }, cryptoKey, signatureData, hash)
+			);
+		}
+		return subtle
+			.importKey('spki', keyData, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify'])
+			.then((cryptoKey) => subtle.verify('RSASSA-PKCS1-v1_5', cryptoKey, signatureData, data));
+	});
+}
+
+/**
+ * Verifies one DKIM-Signature
+ *
+ * @param {SubtleCrypto} subtle
+ * @param {HeaderLine} signatureLine The DKIM-Signature header line
+ * @param {HeaderLine[]} lines All header lines
+ * @param {String} body Binary string with CRLF line breaks
+ * @param {DkimOptions} options
+ * @return {Promise<DkimVerification>}
+ */
+function _verify(
+	subtle: SubtleCrypto,
+	signatureLine: HeaderLine,
+	lines: HeaderLine[],
+	body: string,
+	options: DkimOptions
+): Promise<DkimVerification> {
+	const signature: DkimSignature = parseDkimSignature(signatureLine.value);
+	const result = (status: DkimVerification['status'], reason?: string, bodyHashMatches?: boolean): DkimVerification => {
+		const verification: DkimVerification = { signature, status };
+		if (reason) {
+			verification.reason = reason;
+		}
+		if (typeof bodyHashMatches === 'boolean') {
+			verification.bodyHashMatches = bodyHashMatches;
+		}
+		return verification;
+	};
+
+	if (signature.version !== '1' || !signature.domain || !signature.selector || !signature.bodyHash || !signature.signature) {
+		return Promise.resolve(result('permerror', 'missing or invalid tags'));
+	}
+	if (signature.headers.map((name) => name.toLowerCase()).indexOf('from') < 0) {
+		return Promise.resolve(result('permerror', 'From header not signed'));
+	}
+	if (['rsa-sha256', 'ed25519-sha256'].indexOf(signature.algorithm) < 0) {
+		return Promise.resolve(result('permerror', 'unsupported algorithm ' + signature.algorithm));
+	}
+	const now = Math.floor((options.now || new Date()).getTime() / 1000);
+	if (typeof signature.expiration === 'number' && signature.expiration < now) {
+		return Promise.resolve(result('fail', 'signature expired'));
+	}
+
+	//Body hash
+	let canonicalBody = _canonicalizeBody(body, signature.canonicalization.body);
+	if (typeof signature.length === 'number') {
+		canonicalBody = canonicalBody.substring(0, signature.length);
+	}
+
+	//Signed headers and the signature header with an empty b= tag, the latter without the trailing CRLF
+	const method = signature.canonicalization.header;
+	const unsigned = { name: signatureLine.name, value: '', raw: _emptySignature(signatureLine.raw) };
+	const signedData =
+		_selectHeaders(lines, signature.headers)
+			.map((line) => _canonicalizeHeader(line, method) + '\r\n')
+			.join('') + _canonicalizeHeader(unsigned, method);
+
+	return subtle.digest('SHA-256', str2arr(canonicalBody)).then((hash) => {
+		const bodyHashMatches = Base64.fromUint8Array(new Uint8Array(hash)) === signature.bodyHash;
+		return Promise.resolve(options.resolveKey(signature.selector, signature.domain)).then(
+			(record) => {
+				if (!record) {
+					return result('permerror', 'no key for ' + signature.selector + '._domainkey.' + signature.domain, bodyHashMatches);
+				}
+				const key = parseTagList(record);
+				const keyType = (key['k'] || 'rsa').toLowerCase();
+				if (!key['p']) {
+					return result('permerror', 'key revoked', bodyHashMatches);
+				}
+				if (keyType !== signature.algorithm.split('-')[0]) {
+					return result('permerror', 'key type ' + keyType + ' does not match ' + signature.algorithm, bodyHashMatches);
+				}
+				return _verifySignature(subtle, keyType, key['p'], signature.signature, encode(signedData)).then(
+					(valid) => {
+						if (!bodyHashMatches) {
+							return result('fail', 'body hash did not verify', false);
+						}
+						return valid ? result('pass', undefined, true) : result('fail', 'signature did not verify', true);
+					},
+					(e) => result('permerror', 'invalid key or signature: ' + (e && e.message ? e.message : e), bodyHashMatches)
+				);
+			},
+			(e) => result('temperror', 'key lookup failed: ' + (e && e.message ? e.message : e), bodyHashMatches)
+		);
+	});
+}
+
+/**
+ * Verifies the DKIM-Signature headers of a message (RFC 6376) without network access, keys are looked up with
+ * `options.resolveKey`. Supports rsa-sha256 and ed25519-sha256 through WebCrypto.
+ *
+ * @param {HeaderCollection} headers Headers with their raw lines, as parsed
+ * @param {Uint8Array|String} body Raw body, a string is encoded as UTF-8, line breaks are taken as CRLF
+ * @param {DkimOptions} options
+ * @return {Promise<DkimVerification[]>} One result per DKIM-Signature in header order, rejects with an EmlParseError if WebCrypto is not available
+ */
+export function verifyDkimSignatures(
+	headers: HeaderCollection,
+	body: Uint8Array | string,
+	options: DkimOptions
+): Promise<DkimVerification[]> {
+	const subtle = typeof crypto !== 'undefined' && crypto ? crypto.subtle : undefined;
+	if (!subtle) {
+		return Promise.reject(new EmlParseError('WebCrypto is not available!'));
+	}
+	if (!options || typeof options.resolveKey !== 'function') {
+		return Promise.reject(new EmlParseError('Option "resolveKey" expected to be a function!'));
+	}
+	const lines = HeaderCollection.from(headers).lines();
+	const rawBody = (typeof body === 'string' ? arr2str(encode(body)) : arr2str(body)).replace(/\r?\n/g, '\r\n');
+	return Promise.all(
+		lines.filter((line) => line.name.toLowerCase() === 'dkim-signature').map((line) => _verify(subtle, line, lines, rawBody, options))
+	);
+}
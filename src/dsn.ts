@@ -0,0 +1,290 @@
+import { decode } from './charset';
+import { parseDate } from './dateparser';
+import { HeaderCollection } from './headers';
+import type { DeliveryStatus, DeliveryStatusMessage, DeliveryStatusRecipient, EmlBounce, MimeNode } from './interface';
+import { find } from './mimetree';
+
+/**
+ * Subjects of reports generated by mail servers, e.g. 'Undelivered Mail Returned to Sender', 'failure notice' or
+ * 'Mail delivery failed: returning message to sender'
+ */
+const BOUNCE_SUBJECT =
+	/undeliver|returned mail|failure notice|delivery (status notification|failure|has failed|problem|incomplete)|mail delivery (failed|failure|subsystem)|non-?delivery|could not be delivered/i;
+
+/**
+ * Line before the returned message in the text of a report, e.g. '------ This is a copy of the message, including all
+ * the headers. ------' or '--- Below this line is a copy of the message.'
+ */
+const QUOTE_MARKER = /^[ \t]*-{2,}.*(original message|copy of the message|message follows|undelivered message|headers? follow).*$/im;
+
+const ADDRESS = /<?([^\s<>()\[\]"',;:]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})>?/gi;
+
+/**
+ * Gets the value of a typed field without its type, e.g. 'user@example.com' of 'rfc822; <user@example.com>'
+ *
+ * @param {String} value
+ * @return {String|undefined}
+ */
+function _untyped(value?: string): string | undefined {
+	if (typeof value !== 'string') {
+		return undefined;
+	}
+	const unfolded = value.replace(/\s+/g, ' ').trim();
+	const semicolon = unfolded.indexOf(';');
+	return (semicolon < 0 ? unfolded : unfolded.substring(semicolon + 1).trim()).replace(/^<([^<>]*)>$/, '$1');
+}
+
+/**
+ * @param {String} value Date field
+ * @return {Date|undefined}
+ */
+function _date(value?: string): Date | undefined {
+	const parsed = value ? parseDate(value) : null;
+	return parsed ? parsed.date : undefined;
+}
+
+/**
+ * Gets the decoded content of a leaf as text
+ *
+ * @param {MimeNode} node
+ * @return {String}
+ */
+function _text(node: MimeNode): string {
+	const content = node.content;
+	return typeof content === 'string' ? content : content ? decode(content) : '';
+}
+
+/**
+ * Parses the content of a message/delivery-status or message/global-delivery-status part (RFC 3464, RFC 6533), i.e.
+ * a group of per-message fields and a group of fields per recipient, separated by empty lines
+ *
+ * @param {String} content
+ * @return {DeliveryStatus}
+ */
+export function parseDeliveryStatus(content: string): DeliveryStatus {
+	const groups = [] as string[][];
+	let group = [] as string[];
+	(content || '').split(/\r?\n/).forEach((line) => {
+		if (line.trim()) {
+			group.push(line);
+		} else if (group.length) {
+			groups.push(group);
+			group = [];
+		}
+	});
+	if (group.length) {
+		groups.push(group);
+	}
+
+	//The per-message fields are required, though some reports start with a recipient
+	let perMessage = new HeaderCollection();
+	if (groups.length && !/^\s*final-recipient\s*:/im.test(groups[0].join('\n'))) {
+		perMessage = HeaderCollection.parse(groups.shift() as string[]);
+	}
+	const message: DeliveryStatusMessage = { fields: perMessage };
+	const reportingMta = _untyped(perMessage.get('Reporting-MTA'));
+	if (reportingMta) {
+		message.reportingMta = reportingMta;
+	}
+	const dsnGateway = _untyped(perMessage.get('DSN-Gateway'));
+	if (dsnGateway) {
+		message.dsnGateway = dsnGateway;
+	}
+	const receivedFromMta = _untyped(perMessage.get('Received-From-MTA'));
+	if (receivedFromMta) {
+		message.receivedFromMta = receivedFromMta;
+	}
+	const arrivalDate = _date(perMessage.get('Arrival-Date'));
+	if (arrivalDate) {
+		message.arrivalDate = arrivalDate;
+	}
+	const originalEnvelopeId = _untyped(perMessage.get('Original-Envelope-Id'));
+	if (originalEnvelopeId) {
+		message.originalEnvelopeId = originalEnvelopeId;
+	}
+
+	const recipients = groups.map((lines) => {
+		const fields = HeaderCollection.parse(lines);
+		const status = /[245]\.\d{1,3}\.\d{1,3}/.exec(fields.get('Status') || '');
+		const recipient: DeliveryStatusRecipient = {
+			finalRecipient: _untyped(fields.get('Final-Recipient')) || _untyped(fields.get('Original-Recipient')) || '',
+			action: (_untyped(fields.get('Action')) || '').toLowerCase(),
+			status: status ? status[0] : '',
+			fields,
+		};
+		const originalRecipient = _untyped(fields.get('Original-Recipient'));
+		if (originalRecipient) {
+			recipient.originalRecipient = originalRecipient;
+		}
+		const remoteMta = _untyped(fields.get('Remote-MTA'));
+		if (remoteMta) {
+			recipient.remoteMta = remoteMta;
+		}
+		const diagnosticCode = _untyped(fields.get('Diagnostic-Code'));
+		if (diagnosticCode) {
+			recipient.diagnosticCode = diagnosticCode;
+		}
+		const lastAttemptDate = _date(fields.get('Last-Attempt-Date'));
+		if (lastAttemptDate) {
+			recipient.lastAttemptDate = lastAttemptDate;
+		}
+		const finalLogId = _untyped(fields.get('Final-Log-ID'));
+		if (finalLogId) {
+			recipient.finalLogId = finalLogId;
+		}
+		const willRetryUntil = _date(fields.get('Will-Retry-Until'));
+		if (willRetryUntil) {
+			recipient.willRetryUntil = willRetryUntil;
+		}
+		return recipient;
+	});
+
+	return { message, recipients };
+}
+
+/**
+ * Gets the headers of the returned message from a text/rfc822-headers, message/global-headers, message/rfc822 or
+ * message/global part
+ *
+ * @param {MimeNode} node
+ * @return {HeaderCollection|undefined}
+ */
+function _originalHeaders(node: MimeNode): HeaderCollection | undefined {
+	const returned = find(
+		node,
+		(child) =>
+			!!child.path &&
+			typeof child.body !== 'undefined' &&
+			/^(text\/rfc822-headers|message\/global-headers|message\/rfc822|message\/global)$/.test(child.contentType)
+	);
+	return returned ? HeaderCollection.parse(_text(returned).split(/\r?\n/)) : undefined;
+}
+
+/**
+ * Guesses the failed recipients of a report that is not a delivery status notification, e.g. of qmail or Exim, from
+ * X-Failed-Recipients or the addresses and SMTP replies in its text
+ *
+ * @param {MimeNode} tree The report
+ * @return {EmlBounce|undefined} undefined if it does not look like a report of a mail server
+ */
+function _guessBounce(tree: MimeNode): EmlBounce | undefined {
+	const headers = tree.headers;
+	const failed = headers
+		.getAll('X-Failed-Recipients')
+		.join(',')
+		.split(/[\s,;]+/)
+		.filter((address) => address.indexOf('@') > 0);
+	const fromServer =
+		/(mailer-daemon|postmaster)@/i.test(headers.get('From') || '') || /^\s*<\s*>\s*$/.test(headers.get('Return-Path') || '');
+	if (!failed.length && !(fromServer && BOUNCE_SUBJECT.test(headers.get('Subject') || ''))) {
+		return undefined;
+	}
+
+	//The text of the report, or its html as text
+	let text = '';
+	const textNode = find(tree, (node) => node.contentType === 'text/plain' && typeof node.content === 'string');
+	const htmlNode = find(tree, (node) => node.contentType === 'text/html' && typeof node.content === 'string');
+	if (textNode) {
+		text = _text(textNode);
+	} else if (htmlNode) {
+		text = _text(htmlNode)
+			.replace(/<br\s*\/?>|<\/(p|div|tr|li)>/gi, '\n')
+			.replace(/<[^>]*>/g, '');
+	}
+	const marker = QUOTE_MARKER.exec(text);
+	const report = marker ? text.substring(0, marker.index) : text;
+
+	const bounce: EmlBounce = { type: 'heuristic', message: { fields: new HeaderCollection() }, recipients: [] };
+	let originalHeaders = _originalHeaders(tree);
+	if (!originalHeaders && marker) {
+		const quoted = text.substring(marker.index + marker[0].length).replace(/^\s*\n/, '');
+		if (/^[\w-]+:/.test(quoted)) {
+			originalHeaders = HeaderCollection.parse(quoted.split(/\r?\n/));
+		}
+	}
+	if (originalHeaders && originalHeaders.lines().length) {
+		bounce.originalHeaders = originalHeaders;
+	}
+
+	//The addresses of the report itself are not recipients, the sender of the returned message is usually in To
+	const own = ['From', 'To', 'Return-Path', 'Sender']
+		.map((name) => headers.get(name) || '')
+		.join(' ')
+		.toLowerCase();
+	const addresses = failed.slice();
+	if (!addresses.length) {
+		let match: RegExpExecArray | null;
+		ADDRESS.lastIndex = 0;
+		while ((match = ADDRESS.exec(report))) {
+			const address = match[1];
+			const lower = address.toLowerCase();
+			if (
+				own.indexOf(lower) < 0 &&
+				!/^(mailer-daemon|postmaster)@/.test(lower) &&
+				!addresses.some((known) => known.toLowerCase() === lower)
+			) {
+				addresses.push(address);
+			}
+		}
+	}
+
+	const lines = report.split(/\r?\n/);
+	const fallback = /\b([45])\.\d{1,3}\.\d{1,3}\b/.exec(report) || /\b([45])\d\d\b/.exec(report);
+	const delayed = /\b(delayed|will (keep|continue) (trying|to try)|not (yet )?been delivered yet)\b/i.test(report);
+	bounce.recipients = addresses.map((address) => {
+		//The paragraph of the address, e.g. '<user@example.com>:' and the reply of the remote server in the next lines
+		const start = lines.findIndex((line) => line.toLowerCase().indexOf(address.toLowerCase()) >= 0);
+		const block = [] as string[];
+		for (let i = Math.max(start, 0); start >= 0 && i < lines.length && (i === start || lines[i].trim()); i++) {
+			block.push(lines[i]);
+		}
+		const paragraph = block.join('\n');
+		const reply = /\b([245])\d\d(?:[ -]+#?\d\.\d{1,3}\.\d{1,3})?\b[^\n]*/.exec(paragraph);
+		const enhanced = /\b[245]\.\d{1,3}\.\d{1,3}\b/.exec(paragraph);
+		const statusClass = enhanced ? enhanced[0].charAt(0) : reply ? reply[1] : fallback ? fallback[1] : delayed ? '4' : '5';
+		const recipient: DeliveryStatusRecipient = {
+			finalRecipient: address,
+			//X-Failed-Recipients lists recipients given up on, whatever the last reply
+			action: statusClass === '2' ? 'delivered' : statusClass === '4' && !failed.length ? 'delayed' : 'failed',
+			status: enhanced ? enhanced[0] : statusClass + '.0.0',
+			fields: new HeaderCollection(),
+		};
+		const remoteMta = /\bhost\s+\[?([a-z0-9-]+(?:\.[a-z0-9-]+)+)\]?/i.exec(paragraph);
+		if (remoteMta) {
+			recipient.remoteMta = remoteMta[1];
+		}
+		if (reply) {
+			recipient.diagnosticCode = reply[0].trim();
+		}
+		return recipient;
+	});
+	return bounce;
+}
+
+/**
+ * Gets the delivery status of a bounce, i.e. of a multipart/report with report-type delivery-status (RFC 3464, RFC
+ * 6522), or guessed from the text of reports of mail servers in other formats
+ *
+ * @param {MimeNode} tree The message, see `toMimeTree`
+ * @return {EmlBounce|undefined} undefined if the message is not a bounce
+ */
+export function getBounce(tree: MimeNode): EmlBounce | undefined {
+	const report = find(tree, (node) => node.contentType === 'multipart/report' && /delivery-status/i.test(node.params['report-type'] || ''));
+	const status =
+		report && find(report, (node) => typeof node.body !== 'undefined' && /^message\/(global-)?delivery-status$/.test(node.contentType));
+	let bounce: EmlBounce | undefined;
+	if (report && status) {
+		bounce = { type: 'dsn', ...parseDeliveryStatus(_text(status)) };
+		const originalHeaders = _originalHeaders(report);
+		if (originalHeaders) {
+			bounce.originalHeaders = originalHeaders;
+		}
+	} else {
+		bounce = _guessBounce(tree);
+	}
+	const messageId = bounce && bounce.originalHeaders && bounce.originalHeaders.get('Message-ID');
+	if (bounce && messageId) {
+		bounce.originalMessageId = messageId.trim().replace(/^<|>$/g, '');
+	}
+	return bounce;
+}
@@ -0,0 +1,59 @@
+/**
+ * Base class of the errors rejected by the promise API
+ */
+export class EmlParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'EmlParseError';
+		//Extending built-ins breaks the prototype chain when compiled to ES5
+		Object.setPrototypeOf(this, new.target.prototype);
+	}
+}
+
+/**
+ * EML file content is missing or of an unsupported type
+ */
+export class InvalidInputError extends EmlParseError {
+	constructor(message: string) {
+		super(message);
+		this.name = 'InvalidInputError';
+	}
+}
+
+/**
+ * A header line is neither `Name: value` nor a folded continuation, only thrown with `strict`
+ */
+export class MalformedHeaderError extends EmlParseError {
+	line: string;
+
+	constructor(message: string, line: string) {
+		super(message);
+		this.name = 'MalformedHeaderError';
+		this.line = line;
+	}
+}
+
+/**
+ * A multipart entity has no boundary parameter or its boundary never occurs, only thrown with `strict`
+ */
+export class MissingBoundaryError extends EmlParseError {
+	contentType: string;
+
+	constructor(message: string, contentType: string) {
+		super(message);
+		this.name = 'MissingBoundaryError';
+		this.contentType = contentType;
+	}
+}
+
+/**
+ * Wraps errors of the callback API, which may also be strings, into an EmlParseError
+ * @param {any} error
+ * @returns {EmlParseError}
+ */
+export function toEmlParseError(error: any): EmlParseError {
+	if (error instanceof EmlParseError) {
+		return error;
+	}
+	return new EmlParseError(error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,162 @@
+import type { HeaderLine, KeyValue } from './interface';
+
+/**
+ * Headers of a message or part with case-insensitive access.
+ * Headers are kept as own properties in the shape of `EmlHeaders`, i.e. name => value or values in the casing that
+ * appeared first, so that JSON output and property access stay as they were. Headers named like a method or another
+ * inherited member, e.g. `get:`, are no property and can only be read with `get`, `getAll` and `lines`.
+ */
+export class HeaderCollection implements KeyValue {
+	[k: string]: any;
+	declare private _lines: HeaderLine[];
+
+	constructor(headers?: KeyValue | null) {
+		//The header lines in their original order, not enumerable to keep the JSON output
+		Object.defineProperty(this, '_lines', { value: [], writable: true, enumerable: false, configurable: true });
+		if (headers) {
+			for (const key of Object.keys(headers)) {
+				const value = headers[key];
+				if (typeof value === 'undefined' || value === null || typeof value === 'function') {
+					continue;
+				}
+				(Array.isArray(value) ? value : [value]).forEach((v) => this.add(key, '' + v));
+			}
+		}
+	}
+
+	/**
+	 * Returns the headers as a collection, collections are returned as they are
+	 * @param {KeyValue} headers Plain object, e.g. from JSON, or a collection
+	 * @returns {HeaderCollection}
+	 */
+	static from(headers?: KeyValue | null): HeaderCollection {
+		return headers instanceof HeaderCollection ? headers : new HeaderCollection(headers);
+	}
+
+	/**
+	 * Parses header lines up to the first empty line, e.g. of text/rfc822-headers or a delivery status
+	 * @param {String[]} lines Lines without line breaks
+	 * @returns {HeaderCollection}
+	 */
+	static parse(lines: string[]): HeaderCollection {
+		const headers = new HeaderCollection();
+		for (const line of lines) {
+			if (!line.trim()) {
+				break;
+			}
+			if (/^[ \t]/.test(line)) {
+				headers.append(line.trim(), line);
+				continue;
+			}
+			const colon = line.indexOf(':');
+			if (colon > 0) {
+				headers.add(line.substring(0, colon).trim(), line.substring(colon + 1).trim(), line);
+			}
+		}
+		return headers;
+	}
+
+	/**
+	 * Appends a header
+	 * @param {String} name
+	 * @param {String} value Unfolded value, continuation lines are joined with '\r\n'
+	 * @param {String} raw Original header line(s), `name: value` if missing
+	 */
+	add(name: string, value: string, raw?: string) {
+		this._lines.push({ name, value, raw: typeof raw === 'string' ? raw : name + ': ' + value });
+		const key = this._key(name);
+		if (typeof key === 'undefined') {
+			if (!this._reserved(name)) {
+				this[name] = value;
+			}
+		} else if (Array.isArray(this[key])) {
+			this[key].push(value);
+		} else {
+			this[key] = [this[key], value];
+		}
+	}
+
+	/**
+	 * Appends a folded continuation line to the last header
+	 * @param {String} value Continuation without the leading whitespace
+	 * @param {String} raw Original continuation line
+	 */
+	append(value: string, raw?: string) {
+		const line: HeaderLine | undefined = this._lines[this._lines.length - 1];
+		if (!line) {
+			return;
+		}
+		line.value += '\r\n' + value;
+		line.raw += '\r\n' + (typeof raw === 'string' ? raw : ' ' + value);
+		const key = this._key(line.name);
+		if (typeof key === 'undefined') {
+			return;
+		}
+		if (Array.isArray(this[key])) {
+			this[key][this[key].length - 1] = line.value;
+		} else {
+			this[key] = line.value;
+		}
+	}
+
+	/**
+	 * Gets the value of the first header with that name
+	 * @param {String} name Case-insensitive
+	 * @returns {String|undefined}
+	 */
+	get(name: string): string | undefined {
+		const values = this.getAll(name);
+		return values.length ? values[0] : undefined;
+	}
+
+	/**
+	 * Gets the values of all headers with that name in their original order
+	 * @param {String} name Case-insensitive
+	 * @returns {String[]}
+	 */
+	getAll(name: string): string[] {
+		const lower = name.toLowerCase();
+		return this._lines.filter((line) => line.name.toLowerCase() === lower).map((line) => line.value);
+	}
+
+	/**
+	 * Checks for a header
+	 * @param {String} name Case-insensitive
+	 * @returns {Boolean}
+	 */
+	has(name: string): boolean {
+		return this.getAll(name).length > 0;
+	}
+
+	/**
+	 * Gets all header lines in their original order, with the raw (folded) text as it appeared
+	 * @returns {HeaderLine[]}
+	 */
+	lines(): HeaderLine[] {
+		return this._lines.map((line) => ({ name: line.name, value: line.value, raw: line.raw }));
+	}
+
+	/**
+	 * Checks if a header name is taken by a method, `_lines` or an inherited member like `constructor` or `__proto__`
+	 * @param {String} name
+	 * @returns {Boolean}
+	 */
+	private _reserved(name: string): boolean {
+		return name in this && !Object.prototype.propertyIsEnumerable.call(this, name);
+	}
+
+	/**
+	 * Gets the property name used for a header name, i.e. the casing that appeared first
+	 * @param {String} name
+	 * @returns {String|undefined}
+	 */
+	private _key(name: string): string | undefined {
+		const lower = name.toLowerCase();
+		for (const line of this._lines) {
+			if (line.name.toLowerCase() === lower && Object.prototype.hasOwnProperty.call(this, line.name)) {
+				return line.name;
+			}
+		}
+		return undefined;
+	}
+}
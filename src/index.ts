@@ -5,11 +5,12 @@
 
 import { Base64 } from 'js-base64';
 
-import { convert, decode, encode } from './charset';
-import { GB2312UTF8, getCharsetName, guid, mimeDecode, wrap, getBoundary } from './utils';
+import { arr2str, convert, decode, encode, str2arr } from './charset';
+import { GB2312UTF8, getCharsetName, guid, mimeDecode, wrap, getBoundary, getDelimiter, decodeTransferEncoding, toBytes } from './utils';
 import type {
 	KeyValue,
 	EmailAddress,
+	EmailAddressGroup,
 	ParsedEmlJson,
 	ReadedEmlJson,
 	Attachment,
@@ -18,23 +19,92 @@ import type {
 	BuildOptions,
 	CallbackFn,
 	OptionOrNull,
+	AddressOptions,
 	BoundaryRawData,
 	BoundaryConvertedData,
 	BoundaryHeaders,
+	BuildPart,
+	EmlContent,
+	HeaderValue,
+	HeaderLine,
+	ParsedDate,
+	ReceivedHop,
+	DkimSignature,
+	ArcSeal,
+	ArcSet,
+	AuthenticationResult,
+	AuthenticationResults,
+	EmlAuthentication,
+	DkimOptions,
+	DkimVerification,
+	MimeNode,
+	BodyPart,
+	InlineImageOptions,
+	MhtmlDocument,
+	MhtmlOptions,
+	MhtmlResource,
+	MhtmlBuildData,
+	MhtmlBuildResource,
+	DeliveryStatus,
+	DeliveryStatusMessage,
+	DeliveryStatusRecipient,
+	EmlBounce,
+	EmlStreamEvent,
+	EmlStreamPart,
+	MboxFormat,
+	MboxOptions,
+	MboxMessage,
+	MboxParsedMessage,
+	MboxReadMessage,
+	MboxBuildMessage,
+	CfbEntry,
+	RtfBody,
+	EmlSmime,
+	SmimeCertificate,
+	SmimeSigner,
+	SmimeVerification,
 } from './interface';
 import { addressparser } from './addressparser';
+import { HeaderCollection } from './headers';
+import { getReceivedDate, parseDate } from './dateparser';
+import { getDeliveryPath, parseReceived } from './received';
+import {
+	AUTHENTICATION_HEADERS,
+	getAuthentication,
+	parseArcSeal,
+	parseAuthenticationResults,
+	parseDkimSignature,
+	parseTagList,
+} from './authparser';
+import { verifyDkimSignatures } from './dkim';
+import { find, selectAlternative, toMimeTree, walk } from './mimetree';
+import { resolveInlineImages, rewriteUrls, toDataUri } from './related';
+import { readMhtmlTree } from './mhtml';
+import { getBounce, parseDeliveryStatus } from './dsn';
+import { EmlStreamParser, parseStream } from './stream';
+import { MboxReader, writeMboxrd } from './mbox';
+import { CompoundFile } from './cfb';
+import { readMsgFile } from './msg';
+import { readTnefStream } from './tnef';
+import { decompressRtf, deEncapsulateRtf, setRtfBody } from './rtf';
+import { readSignedData, verifySignedData } from './smime';
+import { getParameter, parseHeaderValue } from './paramparser';
+import { EmlParseError, InvalidInputError, MalformedHeaderError, MissingBoundaryError, toEmlParseError } from './errors';
 
 /**
  * log for test
  */
 let verbose: boolean = false;
 const defaultCharset = 'utf-8';
+const EOL = '\r\n'; //End-of-line
 const fileExtensions: KeyValue = {
 	'text/plain': '.txt',
 	'text/html': '.html',
 	'image/png': '.png',
 	'image/jpg': '.jpg',
 	'image/jpeg': '.jpg',
+	'message/rfc822': '.eml',
+	'message/global': '.u8msg',
 };
 
 /**
@@ -98,21 +168,38 @@ function toEmailAddress(data?: string | EmailAddress | EmailAddress[] | null): s
  * @returns {String|undefined}
  */
 function getCharset(contentType: string) {
-	const match = /charset\s*=\W*([\w\-]+)/g.exec(contentType);
-	return match ? match[1] : undefined;
+	return getParameter(contentType, 'charset');
+}
+
+/**
+ * Converts the result of addressparser, groups keep their name and members
+ * @param {Array} parseList
+ * @returns {EmailAddress[]}
+ */
+function toEmailAddressList(parseList: { name?: string; address?: string; group?: any[] }[]): EmailAddress[] {
+	return parseList.map((v) =>
+		v.group
+			? ({ name: v.name || '', email: '', group: toEmailAddressList(v.group) } as EmailAddressGroup)
+			: ({ name: v.name, email: v.address } as EmailAddress)
+	);
 }
 
 /**
  * Gets name and e-mail address from a string, e.g. 'PayPal' <noreply@paypal.com> => { name: 'PayPal', email: 'noreply@paypal.com' }
+ * Groups, e.g. 'Team: a@b.c, d@e.f;', are an EmailAddressGroup with the members in `group`
  * @param {String} raw
+ * @param {AddressOptions} options `addressArray` returns an array even for none or one address, `addressFlatten` replaces groups by their members
  * @returns { EmailAddress | EmailAddress[] | null}
  */
-function getEmailAddress(rawStr: string): EmailAddress | EmailAddress[] | null {
+function getEmailAddress(rawStr: string, options?: AddressOptions | null): EmailAddress | EmailAddress[] | null {
 	const raw = unquoteString(rawStr);
-	const parseList = addressparser(raw);
-	const list = parseList.map((v) => ({ name: v.name, email: v.address }) as EmailAddress);
+	const parseList = addressparser(raw, { flatten: !!(options && options.addressFlatten) });
+	const list = toEmailAddressList(parseList);
 
 	//Return result
+	if (options && options.addressArray) {
+		return list;
+	}
 	if (list.length === 0) {
 		return null; //No e-mail address
 	}
@@ -165,6 +252,36 @@ function unquoteString(str: string): string {
 
 	return decodedString.replace(/\r?\n/g, '');
 }
+/**
+ * encode section as RFC 2047 encoded-words, leaves pure ASCII untouched
+ * @param {String} str
+ * @returns {String}
+ */
+function quoteString(str: string): string {
+	if (!str || !/[^\x20-\x7e\t]/.test(str)) {
+		return str || '';
+	}
+	//An encoded-word may not be more than 75 characters long, 36 bytes leave room for the header name
+	const words = [] as string[];
+	let chunk = '';
+	for (let i = 0; i < str.length; i++) {
+		let chr = str.charAt(i);
+		//Keep surrogate pairs together
+		if (/[\ud800-\udbff]/.test(chr) && i + 1 < str.length) {
+			chr += str.charAt(++i);
+		}
+		if (chunk && encode(chunk + chr).length > 36) {
+			words.push(chunk);
+			chunk = '';
+		}
+		chunk += chr;
+	}
+	if (chunk) {
+		words.push(chunk);
+	}
+	return words.map((word) => '=?UTF-8?B?' + Base64.encode(word) + '?=').join(EOL);
+}
+
 /**
  * Decodes 'quoted-printable'
  * @param {String} value
@@ -205,18 +322,87 @@ function unquotePrintable(value: string, charset?: string, qEncoding = false): s
 	return mimeDecode(rawString, charset);
 }
 
+/**
+ * Encodes 'quoted-printable', lines are soft-wrapped at 76 characters
+ * @param {String | Uint8Array} value
+ * @returns {String}
+ */
+function quotePrintable(value: string | Uint8Array): string {
+	const lines = typeof value === 'string' ? value.split(/\r?\n/).map((line) => encode(line)) : [value];
+	return lines
+		.map((bytes) => {
+			let result = '';
+			let lineLength = 0;
+			for (let i = 0; i < bytes.length; i++) {
+				const byte = bytes[i];
+				const isLast = i === bytes.length - 1;
+				let token = String.fromCharCode(byte);
+				if (byte === 0x3d || byte > 0x7e || (byte < 0x20 && byte !== 0x09) || (isLast && (byte === 0x20 || byte === 0x09))) {
+					token = '=' + (byte < 0x10 ? '0' : '') + byte.toString(16).toUpperCase();
+				}
+				//Leave room for the '=' of the soft line break
+				if (lineLength + token.length > (isLast ? 76 : 75)) {
+					result += '=' + EOL;
+					lineLength = 0;
+				}
+				result += token;
+				lineLength += token.length;
+			}
+			return result;
+		})
+		.join(EOL);
+}
+
+/**
+ * Checks for a Blob, which is read asynchronously
+ * @param {any} eml
+ * @returns {Boolean}
+ */
+function isBlob(eml: any): eml is Blob {
+	return typeof Blob !== 'undefined' && eml instanceof Blob;
+}
+
+/**
+ * Splits EML file content into lines, binary content is kept as one char per byte and its lines keep a CR before the
+ * LF, so that bodies can be sliced as they are
+ * @param {EmlContent} eml
+ * @returns {{ lines: String[], binary: Boolean }}
+ */
+function splitLines(eml: EmlContent): { lines: string[]; binary: boolean } {
+	if (typeof eml === 'string') {
+		return { lines: eml.split(/\r?\n/), binary: false };
+	}
+	let bytes: Uint8Array | undefined;
+	if (eml instanceof ArrayBuffer) {
+		bytes = new Uint8Array(eml);
+	} else if (ArrayBuffer.isView(eml)) {
+		bytes = new Uint8Array(eml.buffer, eml.byteOffset, eml.byteLength);
+	}
+	if (!bytes) {
+		throw new InvalidInputError('Argument "eml" expected to be string, Uint8Array, ArrayBuffer or Blob!');
+	}
+	return { lines: arr2str(bytes).split('\n'), binary: true };
+}
+
 /**
  * Parses EML file content and returns object-oriented representation of the content.
- * @param {String} eml
+ * Blob content is read asynchronously, the result is passed to the callback only.
+ * @param {EmlContent | Blob} eml
  * @param {OptionOrNull | CallbackFn<ParsedEmlJson>} options
  * @param {CallbackFn<ParsedEmlJson>} callback
  * @returns {string | Error | ParsedEmlJson}
  */
+function parse(eml: Blob, options: OptionOrNull | CallbackFn<ParsedEmlJson>, callback?: CallbackFn<ParsedEmlJson>): void | Error;
 function parse(
-	eml: string,
+	eml: EmlContent,
 	options?: OptionOrNull | CallbackFn<ParsedEmlJson>,
 	callback?: CallbackFn<ParsedEmlJson>
-): string | Error | ParsedEmlJson {
+): string | Error | ParsedEmlJson;
+function parse(
+	eml: EmlContent | Blob,
+	options?: OptionOrNull | CallbackFn<ParsedEmlJson>,
+	callback?: CallbackFn<ParsedEmlJson>
+): string | Error | ParsedEmlJson | void {
 	//Shift arguments
 	if (typeof options === 'function' && typeof callback === 'undefined') {
 		callback = options;
@@ -225,15 +411,22 @@ function parse(
 	if (typeof options !== 'object') {
 		options = { headersOnly: false };
 	}
+	if (isBlob(eml)) {
+		const cb = callback;
+		if (!cb) {
+			return new Error('Argument "callback" expected when "eml" is a Blob!');
+		}
+		eml.arrayBuffer().then(
+			(buffer) => parse(buffer, options as OptionOrNull, cb),
+			(e) => cb(e)
+		);
+		return;
+	}
 	let error: string | Error | undefined;
 	let result: ParsedEmlJson | undefined = {} as ParsedEmlJson;
 	try {
-		if (typeof eml !== 'string') {
-			throw new Error('Argument "eml" expected to be string!');
-		}
-
-		const lines = eml.split(/\r?\n/);
-		result = parseRecursive(lines, 0, result, options as Options) as ParsedEmlJson;
+		const { lines, binary } = splitLines(eml);
+		result = parseRecursive(lines, 0, result, options as Options, binary) as ParsedEmlJson;
 	} catch (e) {
 		error = e as string;
 	}
@@ -246,35 +439,45 @@ function parse(
  * @param {String[]} lines
  * @param {Number}   start
  * @param {Options}  options
+ * @param {Boolean}  binary lines hold one char per byte and may end with their CR, header values are decoded and bodies
+ *                   kept as raw bytes
  * @returns {ParsedEmlJson}
  */
-function parseRecursive(lines: string[], start: number, parent: any, options: Options) {
+function parseRecursive(lines: string[], start: number, parent: any, options: Options, binary = false) {
 	let boundary: any = null;
-	let lastHeaderName = '';
 	let findBoundary = '';
 	let insideBody = false;
 	let insideBoundary = false;
-	let isMultiHeader = false;
 	let isMultipart = false;
 	let checkedForCt = false;
 	let ctInBody = false;
 
-	parent.headers = {};
+	parent.headers = new HeaderCollection();
 	//parent.body = null;
 
 	function complete(boundary: any) {
 		//boundary.part = boundary.lines.join("\r\n");
 		boundary.part = {};
-		parseRecursive(boundary.lines, 0, boundary.part, options);
+		//The line break before a delimiter belongs to it (RFC 2046 section 5.1.1)
+		const last = boundary.lines.length - 1;
+		if (binary && last >= 0) {
+			boundary.lines[last] = boundary.lines[last].replace(/\r$/, '');
+		}
+		parseRecursive(boundary.lines, 0, boundary.part, options, binary);
 		delete boundary.lines;
 	}
 
 	//Read line by line
 	for (let i = start; i < lines.length; i++) {
-		let line = lines[i];
+		let line = binary ? lines[i].replace(/\r$/, '') : lines[i];
 
 		//Header
 		if (!insideBody) {
+			if (binary) {
+				//8-bit header values are expected to be UTF-8 (RFC 6532)
+				line = decode(str2arr(line));
+			}
+
 			//Search for empty line
 			if (line == '') {
 				insideBody = true;
@@ -284,7 +487,7 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 				}
 
 				//Expected boundary
-				let ct = parent.headers['Content-Type'] || parent.headers['Content-type'];
+				let ct = parent.headers.get('Content-Type');
 				if (!ct) {
 					if (checkedForCt) {
 						insideBody = !ctInBody;
@@ -293,7 +496,7 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 						const lineClone = Array.from(lines);
 						const string = lineClone.splice(i).join('\r\n');
 						const trimmedStrin = string.trim();
-						if (trimmedStrin.indexOf('Content-Type') === 0 || trimmedStrin.indexOf('Content-type') === 0) {
+						if (/^content-type/i.test(trimmedStrin)) {
 							insideBody = false;
 							ctInBody = true;
 						} else {
@@ -307,6 +510,9 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 						isMultipart = true;
 						parent.body = [];
 					} else {
+						if (options && options.strict) {
+							throw new MissingBoundaryError('Multipart without boundary!', ct);
+						}
 						if (verbose) {
 							console.warn('Multipart without boundary! ' + ct.replace(/\r?\n/g, ' '));
 						}
@@ -319,32 +525,20 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 			//Header value with new line
 			let match = /^\s+([^\r\n]+)/g.exec(line);
 			if (match) {
-				if (isMultiHeader) {
-					parent.headers[lastHeaderName][parent.headers[lastHeaderName].length - 1] += '\r\n' + match[1];
-				} else {
-					parent.headers[lastHeaderName] += '\r\n' + match[1];
-				}
+				parent.headers.append(match[1], line);
 				continue;
 			}
 
-			//Header name and value
+			//Header name and value, multiple headers with the same name are collected into an array
 			match = /^([\w\d\-]+):\s*([^\r\n]*)/gi.exec(line);
 			if (match) {
-				lastHeaderName = match[1];
-				if (parent.headers[lastHeaderName]) {
-					//Multiple headers with the same name
-					isMultiHeader = true;
-					if (typeof parent.headers[lastHeaderName] == 'string') {
-						parent.headers[lastHeaderName] = [parent.headers[lastHeaderName]];
-					}
-					parent.headers[lastHeaderName].push(match[2]);
-				} else {
-					//Header first appeared here
-					isMultiHeader = false;
-					parent.headers[lastHeaderName] = match[2];
-				}
+				parent.headers.add(match[1], match[2], line);
 				continue;
 			}
+
+			if (options && options.strict && line.trim()) {
+				throw new MalformedHeaderError('Malformed header line!', line);
+			}
 		}
 		//Body
 		else {
@@ -354,7 +548,7 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 
 				//Updated on 2019-10-12: A line before the boundary marker is not required to be an empty line
 				//if (lines[i - 1] == "" && line.indexOf("--" + findBoundary) == 0 && !/\-\-(\r?\n)?$/g.test(line)) {
-				if (line.indexOf('--' + findBoundary) == 0 && line.indexOf('--' + findBoundary + '--') !== 0) {
+				if (getDelimiter(line, findBoundary) === 'delimiter') {
 					insideBoundary = true;
 
 					//Complete the previous boundary
@@ -375,20 +569,23 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 				}
 
 				if (insideBoundary) {
-					//Search for boundary end
-					if (boundary?.boundary && lines[i - 1] == '' && line.indexOf('--' + findBoundary + '--') == 0) {
+					//Search for boundary end, the epilogue after it is no content of the last part
+					if (boundary?.boundary && getDelimiter(line, findBoundary) === 'close') {
 						insideBoundary = false;
-						complete(boundary);
-						continue;
-					}
-					if (boundary?.boundary && line.indexOf('--' + findBoundary + '--') == 0) {
+						if (boundary.lines) {
+							complete(boundary);
+						}
 						continue;
 					}
-					boundary?.lines.push(line);
+					//Body lines as they are
+					boundary?.lines.push(lines[i]);
 				}
 			} else {
 				//Solid string body
-				parent.body = lines.splice(i).join('\r\n');
+				parent.body = lines.splice(i).join(binary ? '\n' : '\r\n');
+				if (binary) {
+					parent.body = str2arr(parent.body);
+				}
 				break;
 			}
 		}
@@ -399,6 +596,10 @@ function parseRecursive(lines: string[], start: number, parent: any, options: Op
 		complete(parent.body[parent.body.length - 1]);
 	}
 
+	if (isMultipart && !parent.body.length && options && options.strict) {
+		throw new MissingBoundaryError('Boundary "' + findBoundary + '" not found!', parent.headers.get('Content-Type'));
+	}
+
 	return parent;
 }
 
@@ -412,13 +613,13 @@ function completeBoundary(boundary: BoundaryRawData): BoundaryConvertedData | nu
 		return null;
 	}
 	const lines = boundary.lines || [];
+	const headers = new HeaderCollection();
 	const result = {
 		boundary: boundary.boundary,
 		part: {
-			headers: {},
+			headers: headers as KeyValue as BoundaryHeaders,
 		},
 	} as BoundaryConvertedData;
-	let lastHeaderName = '';
 	let insideBody = false;
 	let childBoundary: BoundaryRawData | undefined;
 	for (let index = 0; index < lines.length; index++) {
@@ -430,20 +631,19 @@ function completeBoundary(boundary: BoundaryRawData): BoundaryConvertedData | nu
 			}
 			const match = /^([\w\d\-]+):\s*([^\r\n]*)/gi.exec(line);
 			if (match) {
-				lastHeaderName = match[1];
-				result.part.headers[lastHeaderName] = match[2];
+				headers.add(match[1], match[2], line);
 				continue;
 			}
 			//Header value with new line
 			const lineMatch = /^\s+([^\r\n]+)/g.exec(line);
 			if (lineMatch) {
-				result.part.headers[lastHeaderName] += '\r\n' + lineMatch[1];
+				headers.append(lineMatch[1], line);
 				continue;
 			}
 		} else {
 			// part.body
 			const match = /^\-\-([^\r\n]+)(\r?\n)?$/g.exec(line);
-			const childBoundaryStr = getBoundary(result.part.headers['Content-Type'] || result.part.headers['Content-type']);
+			const childBoundaryStr = getBoundary(headers.get('Content-Type') as string);
 			if (verbose) {
 				if (match) {
 					console.log(`line 568: line is ${line}, ${'--' + childBoundaryStr}`, `${line.indexOf('--' + childBoundaryStr)}`);
@@ -496,34 +696,67 @@ function completeBoundary(boundary: BoundaryRawData): BoundaryConvertedData | nu
 
 /**
  * Parses EML file content and return user-friendly object.
- * @param {String | ParsedEmlJson} eml EML file content or object from 'parse'
+ * Blob content is read asynchronously, the result is passed to the callback only.
+ * @param {EmlContent | Blob | ParsedEmlJson} eml EML file content or object from 'parse'
  * @param { OptionOrNull | CallbackFn<ReadedEmlJson>} options EML parse options
  * @param {CallbackFn<ReadedEmlJson>} callback Callback function(error, data)
  */
+function read(eml: Blob, options: OptionOrNull | CallbackFn<ReadedEmlJson>, callback?: CallbackFn<ReadedEmlJson>): void | Error;
 function read(
-	eml: string | ParsedEmlJson,
+	eml: EmlContent | ParsedEmlJson,
 	options?: OptionOrNull | CallbackFn<ReadedEmlJson>,
 	callback?: CallbackFn<ReadedEmlJson>
-): ReadedEmlJson | Error | string {
+): ReadedEmlJson | Error | string;
+function read(
+	eml: EmlContent | Blob | ParsedEmlJson,
+	options?: OptionOrNull | CallbackFn<ReadedEmlJson>,
+	callback?: CallbackFn<ReadedEmlJson>
+): ReadedEmlJson | Error | string | void {
 	//Shift arguments
 	if (typeof options === 'function' && typeof callback === 'undefined') {
 		callback = options;
 		options = null;
 	}
+	if (isBlob(eml)) {
+		const cb = callback;
+		if (!cb) {
+			return new Error('Argument "callback" expected when "eml" is a Blob!');
+		}
+		eml.arrayBuffer().then(
+			(buffer) => read(buffer, options as OptionOrNull, cb),
+			(e) => cb(e)
+		);
+		return;
+	}
 	let error: Error | string | undefined;
 	let result: ReadedEmlJson | undefined;
 
-	//Appends the boundary to the result
-	function _append(headers: EmlHeaders, content: string | Uint8Array | Attachment, result: ReadedEmlJson) {
-		const contentType = headers['Content-Type'] || headers['Content-type'];
-		const contentDisposition = headers['Content-Disposition'];
+	//Appends the boundary to the result, text sections of the body are added to `bodyParts` too
+	function _append(
+		rawHeaders: EmlHeaders,
+		content: string | Uint8Array | Attachment,
+		result: ReadedEmlJson,
+		path = '',
+		inBody = true,
+		mimeType = ''
+	) {
+		const headers = HeaderCollection.from(rawHeaders);
+		const contentType = headers.get('Content-Type');
+		const contentDisposition = headers.get('Content-Disposition');
 
 		const charset = getCharsetName(getCharset(contentType as string) || defaultCharset);
-		let encoding = headers['Content-Transfer-Encoding'] || headers['Content-transfer-encoding'];
+		let encoding = headers.get('Content-Transfer-Encoding');
 		if (typeof encoding === 'string') {
-			encoding = encoding.toLowerCase();
+			encoding = encoding.toLowerCase().trim();
 		}
-		if (encoding === 'base64') {
+		//Keep the transferred content, attachments are decoded from it
+		const rawContent = content as string | Uint8Array;
+		//Raw bytes from binary input are decoded only once the part turns out to be text
+		const binary = content instanceof Uint8Array;
+		const decodeBinary = () => decode(decodeTransferEncoding(rawContent, encoding), getCharset(contentType as string) || defaultCharset);
+		if (binary) {
+			content = rawContent;
+		} else if (encoding === 'base64') {
 			if (contentType && contentType.indexOf('gbk') >= 0) {
 				// is work?  I'm not sure
 				content = encode(GB2312UTF8.GB2312ToUTF8((content as string).replace(/\r?\n/g, '')));
@@ -539,52 +772,71 @@ function read(
 		}
 
 		if (!contentDisposition && contentType && contentType.indexOf('text/html') >= 0) {
-			if (typeof content !== 'string') {
+			if (binary) {
+				content = decodeBinary();
+			} else if (typeof content !== 'string') {
 				content = decode(content as Uint8Array, charset);
 			}
 
-			let htmlContent = content.replace(/\r\n|(&quot;)/g, '').replace(/\"/g, `"`);
-
-			try {
-				if (encoding === 'base64') {
-					htmlContent = Base64.decode(htmlContent);
-				} else if (Base64.btoa(Base64.atob(htmlContent)) == htmlContent) {
-					htmlContent = Base64.atob(htmlContent);
+			//Raw bytes of base64 are decoded to the html itself, everything else is cleaned up the same for strings and bytes
+			let htmlContent = content;
+			if (!binary || encoding !== 'base64') {
+				htmlContent = content.replace(/\r\n|(&quot;)/g, '').replace(/\"/g, `"`);
+				try {
+					if (encoding === 'base64') {
+						htmlContent = Base64.decode(htmlContent);
+					} else if (Base64.btoa(Base64.atob(htmlContent)) == htmlContent) {
+						htmlContent = Base64.atob(htmlContent);
+					}
+				} catch (error) {
+					console.error(error);
 				}
-			} catch (error) {
-				console.error(error);
 			}
 
-			if (result.html) {
-				result.html += htmlContent;
-			} else {
-				result.html = htmlContent;
-			}
-
-			result.htmlheaders = {
-				'Content-Type': contentType,
+			const htmlheaders: BoundaryHeaders = {
+				'Content-Type': contentType as string,
 				'Content-Transfer-Encoding': encoding || '',
 			};
-			// self boundary Not used at conversion
-		} else if (!contentDisposition && contentType && contentType.indexOf('text/plain') >= 0) {
-			if (typeof content !== 'string') {
-				content = decode(content as Uint8Array, charset);
+			//Base of relative URLs (RFC 2557)
+			['Content-Location', 'Content-Base'].forEach((name) => {
+				const value = headers.get(name);
+				if (value) {
+					htmlheaders[name] = value.trim();
+				}
+			});
+			//The first html section is `html`, all of the body are in `bodyParts`
+			if (typeof result.html === 'undefined') {
+				result.html = htmlContent;
+				result.htmlheaders = htmlheaders;
 			}
-			if (encoding === 'base64') {
-				content = Base64.decode(content);
+			if (inBody) {
+				(result.bodyParts = result.bodyParts || []).push({ path, contentType: 'text/html', content: htmlContent, headers: htmlheaders });
 			}
-			//Plain text message
-
-			if (result.text) {
-				result.text += content;
+			// self boundary Not used at conversion
+		} else if (!contentDisposition && contentType && contentType.indexOf('text/plain') >= 0) {
+			if (binary) {
+				content = decodeBinary();
 			} else {
-				result.text = content;
+				if (typeof content !== 'string') {
+					content = decode(content as Uint8Array, charset);
+				}
+				if (encoding === 'base64') {
+					content = Base64.decode(content);
+				}
 			}
+			//Plain text message
 
-			result.textheaders = {
+			const textheaders = {
 				'Content-Type': contentType,
 				'Content-Transfer-Encoding': encoding || '',
 			};
+			if (typeof result.text === 'undefined') {
+				result.text = content;
+				result.textheaders = textheaders;
+			}
+			if (inBody) {
+				(result.bodyParts = result.bodyParts || []).push({ path, contentType: 'text/plain', content, headers: textheaders });
+			}
 			// self boundary Not used at conversion
 		} else {
 			//Get the attachment
@@ -594,143 +846,196 @@ function read(
 
 			const attachment = {} as Attachment;
 
-			const contentIdWithBrackets = headers['Content-ID'] || headers['Content-Id'];
+			const contentIdWithBrackets = headers.get('Content-ID');
 			const contentId = contentIdWithBrackets?.replace(/^<|>$/g, '');
 			if (contentId) {
 				attachment.contentId = contentId;
 			}
+			const contentLocation = headers.get('Content-Location');
+			if (contentLocation) {
+				attachment.contentLocation = contentLocation.replace(/\s+/g, '');
+			}
 
-			const NameContainer = ['Content-Disposition', 'Content-Type', 'Content-type'];
+			const NameContainer = ['Content-Disposition', 'Content-Type'];
 
 			let result_name;
 			for (const key of NameContainer) {
-				const name: string = headers[key];
-				if (name) {
-					result_name = name
-						.replace(/(\s|'|utf-8|\*[0-9]\*)/g, '')
-						.split(';')
-						.map((v) => /name[\*]?="?(.+?)"?$/gi.exec(v))
-						.reduce((a, b) => {
-							if (b && b[1]) {
-								a += b[1];
-							}
-							return a;
-						}, '');
-					if (result_name) {
-						break;
-					}
+				result_name = getParameter(headers.get(key), 'filename') || getParameter(headers.get(key), 'name');
+				if (result_name) {
+					break;
 				}
 			}
 			if (result_name) {
-				attachment.name = decodeURI(result_name);
+				//RFC 2047 encoded-words in quoted names are common, though not allowed
+				attachment.name = unquoteString(result_name);
 			}
 
-			const ct = headers['Content-Type'] || headers['Content-type'];
+			const ct = headers.get('Content-Type');
 			if (ct) {
 				attachment.contentType = ct;
 			}
 
-			const cd = headers['Content-Disposition'];
+			const data = decodeTransferEncoding(rawContent, encoding);
+			attachment.data = data;
+			attachment.data64 =
+				encoding === 'base64' && typeof rawContent === 'string' ? rawContent.replace(/\s+/g, '') : Base64.fromUint8Array(data);
+
+			const cd = headers.get('Content-Disposition');
 			if (cd) {
 				attachment.inline = /^\s*inline/g.test(cd);
 				const sizeRegexMatches = /size\s*=\s*([0-9]+)/gi.exec(cd);
-				attachment.size = parseInt(sizeRegexMatches?.[1] ?? '0');
+				attachment.size = sizeRegexMatches ? parseInt(sizeRegexMatches[1]) : data.length;
+			} else {
+				attachment.size = data.length;
 			}
 
-			result.attachments.push(attachment);
+			//Attached messages are read as well, the attachment keeps their raw bytes (RFC 2046 section 5.2.1, RFC 6532)
+			if (/^message\/(rfc822|global)$/.test(mimeType)) {
+				const message = read(data, options as OptionOrNull);
+				if (typeof message !== 'string' && !(message instanceof Error)) {
+					attachment.message = message;
+				}
+			}
+
+			//winmail.dat of Exchange, its attachments and body replace it unless `keepTnef` (MS-OXTNEF)
+			let tnef: ReadedEmlJson | undefined;
+			if (/^application\/(vnd\.)?ms-tnef$/.test(mimeType)) {
+				try {
+					tnef = readTnefStream(data);
+					setRtfBody(tnef);
+					buildEmbeddedMessages(tnef);
+				} catch (e) {
+					tnef = undefined;
+				}
+			}
+			if (!tnef || (options && (options as Options).keepTnef)) {
+				result.attachments.push(attachment);
+			}
+			if (tnef) {
+				result.attachments.push(...(tnef.attachments || []));
+				if (typeof result.text === 'undefined' && typeof tnef.text === 'string') {
+					result.text = tnef.text;
+				}
+				if (typeof result.html === 'undefined' && typeof tnef.html === 'string') {
+					result.html = tnef.html;
+				}
+				if (!result.rtf && tnef.rtf) {
+					result.rtf = tnef.rtf;
+				}
+			}
 		}
 	}
 
-	function _read(data: ParsedEmlJson): ReadedEmlJson | Error | string {
+	function _read(data: ParsedEmlJson, options?: OptionOrNull): ReadedEmlJson | Error | string {
 		if (!data) {
 			return 'no data';
 		}
 		try {
 			const result = {} as ReadedEmlJson;
 			if (!data.headers) {
-				throw new Error("data does't has headers");
+				throw new InvalidInputError("data does't has headers");
 			}
-			if (data.headers['Date']) {
-				result.date = new Date(data.headers['Date']);
+			const headers = HeaderCollection.from(data.headers);
+			const date = headers.get('Date');
+			if (date) {
+				const parsedDate = parseDate(date);
+				if (parsedDate) {
+					result.date = parsedDate.date;
+					result.dateOffset = parsedDate.offset;
+				} else {
+					result.date = new Date(date);
+				}
 			}
-			if (data.headers['Subject']) {
-				result.subject = unquoteString(data.headers['Subject']);
+			//The most recent resent block comes first
+			const resentDate = parseDate(headers.get('Resent-Date') as string);
+			if (resentDate) {
+				result.resentDate = resentDate.date;
 			}
-			if (data.headers['From']) {
-				result.from = getEmailAddress(data.headers['From']);
+			const subject = headers.get('Subject');
+			if (subject) {
+				result.subject = unquoteString(subject);
 			}
-			if (data.headers['To']) {
-				result.to = getEmailAddress(data.headers['To']);
+			const from = headers.get('From');
+			if (from) {
+				result.from = getEmailAddress(from, options);
 			}
-			if (data.headers['CC']) {
-				result.cc = getEmailAddress(data.headers['CC']);
+			const to = headers.get('To');
+			if (to) {
+				result.to = getEmailAddress(to, options);
 			}
-			if (data.headers['Cc']) {
-				result.cc = getEmailAddress(data.headers['Cc']);
+			const cc = headers.get('Cc');
+			if (cc) {
+				result.cc = getEmailAddress(cc, options);
 			}
-			result.headers = data.headers;
-
-			//Content mime type
-			let boundary: any = null;
-			const ct = data.headers['Content-Type'] || data.headers['Content-type'];
-			if (ct && /^multipart\//g.test(ct)) {
-				const b = getBoundary(ct);
-				if (b && b.length) {
-					boundary = b;
-				}
+			const bcc = headers.get('Bcc');
+			if (bcc) {
+				result.bcc = getEmailAddress(bcc, options);
+			}
+			const replyTo = headers.get('Reply-To');
+			if (replyTo) {
+				result.replyTo = getEmailAddress(replyTo, options);
+			}
+			const sender = headers.get('Sender');
+			if (sender) {
+				result.sender = getEmailAddress(sender, options);
+			}
+			const returnPath = headers.get('Return-Path');
+			if (returnPath) {
+				result.returnPath = getEmailAddress(returnPath, options);
+			}
+			//Every hop may add a Delivered-To header
+			const deliveredTo = headers.getAll('Delivered-To');
+			if (deliveredTo.length) {
+				result.deliveredTo = getEmailAddress(deliveredTo.join(', '), options);
+			}
+			result.headers = headers;
+			if (AUTHENTICATION_HEADERS.some((name) => headers.has(name))) {
+				result.authentication = getAuthentication(headers);
 			}
 
-			if (boundary && Array.isArray(data.body)) {
-				for (let i = 0; i < data.body.length; i++) {
-					const boundaryBlock = data.body[i];
-					if (!boundaryBlock) {
-						continue;
-					}
-					//Get the message content
-					if (typeof boundaryBlock.part === 'undefined') {
-						verbose && console.warn('Warning: undefined b.part');
-					} else if (typeof boundaryBlock.part === 'string') {
-						result.data = boundaryBlock.part;
-					} else {
-						if (typeof boundaryBlock.part.body === 'undefined') {
-							verbose && console.warn('Warning: undefined b.part.body');
-						} else if (typeof boundaryBlock.part.body === 'string') {
-							_append(boundaryBlock.part.headers, boundaryBlock.part.body, result);
-						} else {
-							// keep multipart/alternative
-							const currentHeaders = boundaryBlock.part.headers;
-							const currentHeadersContentType = currentHeaders['Content-Type'] || currentHeaders['Content-type'];
-							if (verbose) {
-								console.log(`line 969 currentHeadersContentType: ${currentHeadersContentType}`);
-							}
-							// Hasmore ?
-							if (currentHeadersContentType && currentHeadersContentType.indexOf('multipart') >= 0 && !result.multipartAlternative) {
-								result.multipartAlternative = {
-									'Content-Type': currentHeadersContentType,
-								};
-							}
-							for (let j = 0; j < boundaryBlock.part.body.length; j++) {
-								const selfBoundary = boundaryBlock.part.body[j];
-								if (typeof selfBoundary === 'string') {
-									result.data = selfBoundary;
-									continue;
-								}
-
-								const headers = selfBoundary.part.headers;
-								const content = selfBoundary.part.body;
-								if (Array.isArray(content)) {
-									(content as any).forEach((bound: any) => {
-										_append(bound.part.headers, bound.part.body, result);
-									});
-								} else {
-									_append(headers, content, result);
-								}
-							}
-						}
+			//Text, html and attachments from the leaves of the MIME tree, at any depth. Only the best alternative of a
+			//multipart/alternative is part of the body, the others may still give `text` or `html`
+			const preference = (options && options.alternativePreference) || ['text/html', 'text/plain'];
+			const _readNode = (node: MimeNode, inBody: boolean) => {
+				if (typeof node.body !== 'undefined') {
+					//The entity of opaque signed data is read in place of the part (RFC 8551 section 3.5.2)
+					const opaque = /^application\/(x-)?pkcs7-mime$/.test(node.contentType) ? getSmime(node.content, 'opaque') : undefined;
+					const entity = opaque && opaque.content ? parse(opaque.content, options) : undefined;
+					if (opaque && entity && typeof entity !== 'string' && !(entity instanceof Error)) {
+						result.smime = result.smime || opaque.smime;
+						_readNode(toMimeTree(entity), inBody);
+						return;
 					}
+					_append(node.headers, node.body, result, node.path, inBody, node.contentType);
+					return;
+				}
+				// keep multipart/alternative
+				if (node.path && node.contentType === 'multipart/alternative' && !result.multipartAlternative) {
+					result.multipartAlternative = {
+						'Content-Type': node.headers.get('Content-Type') as string,
+					};
 				}
-			} else if (typeof data.body === 'string') {
-				_append(data.headers, data.body, result);
+				//The signature of multipart/signed is no attachment (RFC 8551 section 3.5.3)
+				const signature = node.contentType === 'multipart/signed' && node.children[1];
+				const signed =
+					signature && /^application\/(x-)?pkcs7-signature$/.test(signature.contentType)
+						? getSmime(signature.content, 'signed')
+						: undefined;
+				if (signed) {
+					result.smime = result.smime || signed.smime;
+					_readNode(node.children[0], inBody);
+					return;
+				}
+				const selected = node.contentType === 'multipart/alternative' ? selectAlternative(node, preference) : undefined;
+				//The selected alternative first, so that it gives `text` or `html`
+				const children = selected ? [selected].concat(node.children.filter((child) => child !== selected)) : node.children;
+				children.forEach((child) => _readNode(child, inBody && (!selected || child === selected)));
+			};
+			const tree = toMimeTree(data);
+			_readNode(tree, true);
+			const bounce = getBounce(tree);
+			if (bounce) {
+				result.bounce = bounce;
 			}
 			return result;
 		} catch (e) {
@@ -738,32 +1043,705 @@ function read(
 		}
 	}
 
-	if (typeof eml === 'string') {
-		const parseResult = parse(eml, options as OptionOrNull);
+	if (typeof eml === 'string' || eml instanceof ArrayBuffer || ArrayBuffer.isView(eml)) {
+		const parseResult = parse(eml as EmlContent, options as OptionOrNull);
 		if (typeof parseResult === 'string' || parseResult instanceof Error) {
 			error = parseResult;
 		} else {
-			const readResult = _read(parseResult);
+			const readResult = _read(parseResult, options as OptionOrNull);
 			if (typeof readResult === 'string' || readResult instanceof Error) {
 				error = readResult;
 			} else {
 				result = readResult;
 			}
 		}
-	} else if (typeof eml === 'object') {
-		const readResult = _read(eml);
+	} else if (eml && typeof eml === 'object') {
+		const readResult = _read(eml, options as OptionOrNull);
 		if (typeof readResult === 'string' || readResult instanceof Error) {
 			error = readResult;
 		} else {
 			result = readResult;
 		}
 	} else {
-		error = new Error('Missing EML file content!');
+		error = new InvalidInputError('Missing EML file content!');
 	}
 	callback && callback(error, result);
 	return error || result || new Error('read EML failed!');
 }
 
+/**
+ * Reads the CMS signed data of an S/MIME part, see `readSignedData`
+ * @param {String | Uint8Array} content Decoded content of an application/pkcs7-signature or application/pkcs7-mime part
+ * @param {'signed' | 'opaque'} type
+ * @returns {{ smime: EmlSmime, content?: Uint8Array } | undefined} undefined if it is no signed data, e.g. encrypted
+ */
+function getSmime(content: string | Uint8Array | undefined, type: EmlSmime['type']): { smime: EmlSmime; content?: Uint8Array } | undefined {
+	if (!(content instanceof Uint8Array)) {
+		return undefined;
+	}
+	try {
+		const signedData = readSignedData(content);
+		const result: { smime: EmlSmime; content?: Uint8Array } = {
+			smime: { type, signers: signedData.signers, certificates: signedData.certificates },
+		};
+		if (signedData.content) {
+			result.content = signedData.content;
+		}
+		return result;
+	} catch (e) {
+		return undefined;
+	}
+}
+
+/**
+ * Parses EML file content like 'parse', but returns a promise
+ * @param {EmlContent | Blob} eml
+ * @param {OptionOrNull} options
+ * @returns {Promise<ParsedEmlJson>} rejects with an EmlParseError
+ */
+function parseAsync(eml: EmlContent | Blob, options?: OptionOrNull): Promise<ParsedEmlJson> {
+	return new Promise((resolve, reject) => {
+		const callback = (error: any, result?: ParsedEmlJson) => (error ? reject(toEmlParseError(error)) : resolve(result as ParsedEmlJson));
+		//Blob content is passed to the callback as well
+		parse(eml as EmlContent, options || null, callback);
+	});
+}
+
+/**
+ * Reads EML file content like 'read', but returns a promise
+ * @param {EmlContent | Blob | ParsedEmlJson} eml EML file content or object from 'parse'
+ * @param {OptionOrNull} options
+ * @returns {Promise<ReadedEmlJson>} rejects with an EmlParseError
+ */
+function readAsync(eml: EmlContent | Blob | ParsedEmlJson, options?: OptionOrNull): Promise<ReadedEmlJson> {
+	return new Promise((resolve, reject) => {
+		const callback = (error: any, result?: ReadedEmlJson) => (error ? reject(toEmlParseError(error)) : resolve(result as ReadedEmlJson));
+		//Blob content is passed to the callback as well
+		read(eml as EmlContent, options || null, callback);
+	});
+}
+
+/**
+ * Verifies the DKIM signatures of a message against the raw header lines and body, see `verifyDkimSignatures`
+ * @param {EmlContent} eml The original message, bytes are hashed as they are
+ * @param {DkimOptions} options `resolveKey(selector, domain)` gets the key record instead of a DNS lookup
+ * @returns {Promise<DkimVerification[]>} one result per DKIM-Signature, rejects with an EmlParseError
+ */
+function verifyDkim(eml: EmlContent, options: DkimOptions): Promise<DkimVerification[]> {
+	let headers: HeaderCollection;
+	let body: string | Uint8Array;
+	try {
+		const split = splitLines(eml);
+		const binary = split.binary;
+		//Canonical line breaks
+		const lines = split.lines.map((line) => line.replace(/\r$/, ''));
+		headers = parseRecursive(lines, 0, {}, { headersOnly: true }, binary).headers;
+		const index = lines.indexOf('');
+		const rawBody = index < 0 ? '' : lines.slice(index + 1).join('\r\n');
+		body = binary ? str2arr(rawBody) : rawBody;
+	} catch (e) {
+		return Promise.reject(toEmlParseError(e));
+	}
+	return verifyDkimSignatures(headers, body, options);
+}
+
+/**
+ * Gets the lines of an entity of a message, i.e. its headers and body, by following the delimiters of the multiparts
+ * on its path
+ * @param {String[]} lines Lines of the message
+ * @param {MimeNode} tree MIME tree of the message
+ * @param {String} path Part number of the entity
+ * @returns {{ start: Number, end: Number }} The entity are the lines from `start` up to before `end`
+ */
+function getEntityLines(lines: string[], tree: MimeNode, path: string): { start: number; end: number } {
+	let node = tree;
+	let start = 0;
+	let end = lines.length;
+	(path ? path.split('.') : []).forEach((part) => {
+		const index = parseInt(part, 10) - 1;
+		//The body follows the first empty line
+		let body = start;
+		while (body < end && lines[body] !== '') {
+			body++;
+		}
+		let child = -1;
+		let childStart = end;
+		let childEnd = end;
+		for (let i = body + 1; i < end; i++) {
+			const delimiter = getDelimiter(lines[i], node.params['boundary']);
+			if (!delimiter) {
+				continue;
+			}
+			if (child === index) {
+				childEnd = i;
+				break;
+			}
+			if (delimiter === 'close') {
+				break;
+			}
+			child++;
+			childStart = i + 1;
+		}
+		if (child !== index || !node.children[index]) {
+			throw new MissingBoundaryError('Part ' + path + ' not found!', node.headers.get('Content-Type') as string);
+		}
+		start = childStart;
+		end = childEnd;
+		node = node.children[index];
+	});
+	return { start, end };
+}
+
+/**
+ * Verifies the S/MIME signature of a message, see `verifySignedData`. The first part of multipart/signed is verified
+ * as the exact bytes between its boundaries, opaque signed data against its encapsulated entity.
+ * @param {EmlContent} eml The original message, bytes are hashed as they are
+ * @returns {Promise<SmimeVerification[]>} one result per signer, none if the message is not signed, rejects with an EmlParseError
+ */
+function verifySmime(eml: EmlContent): Promise<SmimeVerification[]> {
+	let signature: Uint8Array | undefined;
+	let content: Uint8Array | undefined;
+	try {
+		const split = splitLines(eml);
+		const binary = split.binary;
+		//The signed part is canonical with CRLF line breaks (RFC 8551 section 3.1.1)
+		const lines = split.lines.map((line) => line.replace(/\r$/, ''));
+		const parsed = parseRecursive(lines, 0, {}, { headersOnly: false }, binary) as ParsedEmlJson;
+		//Enveloped data, i.e. encrypted messages, is left out
+		const tree = toMimeTree(parsed);
+		const node = find(
+			tree,
+			(node) =>
+				(node.contentType === 'multipart/signed' && !!node.children[1]) ||
+				(/^application\/(x-)?pkcs7-mime$/.test(node.contentType) && !!getSmime(node.content, 'opaque'))
+		);
+		if (node && node.contentType === 'multipart/signed') {
+			signature = node.children[1].content as Uint8Array;
+			//The lines of the first part, without the CRLF of the next delimiter, which belongs to it (RFC 2046 section 5.1.1)
+			const { start, end } = getEntityLines(lines, tree, (node.path ? node.path + '.' : '') + '1');
+			const rawContent = lines.slice(start, end).join('\r\n');
+			content = binary ? str2arr(rawContent) : encode(rawContent);
+		} else if (node) {
+			signature = node.content as Uint8Array;
+		}
+	} catch (e) {
+		return Promise.reject(toEmlParseError(e));
+	}
+	if (!(signature instanceof Uint8Array)) {
+		return Promise.resolve([]);
+	}
+	return verifySignedData(signature, content).catch((e) => Promise.reject(toEmlParseError(e)));
+}
+
+/**
+ * Reads an MHTML web archive, e.g. saved by a browser, into its root document and resources
+ * @param {EmlContent} eml
+ * @param {MhtmlOptions | CallbackFn<MhtmlDocument>} options `rewrite: true` rewrites the URLs of the root document for offline rendering
+ * @param {CallbackFn<MhtmlDocument>} callback Callback function(error, data)
+ * @returns {MhtmlDocument | Error | string}
+ */
+function readMhtml(
+	eml: EmlContent,
+	options?: MhtmlOptions | null | CallbackFn<MhtmlDocument>,
+	callback?: CallbackFn<MhtmlDocument>
+): MhtmlDocument | Error | string {
+	//Shift arguments
+	if (typeof options === 'function' && typeof callback === 'undefined') {
+		callback = options;
+		options = null;
+	}
+	let error: Error | string | undefined;
+	let result: MhtmlDocument | undefined;
+	const parseResult = parse(eml, { headersOnly: false });
+	if (typeof parseResult === 'string' || parseResult instanceof Error) {
+		error = parseResult;
+	} else {
+		try {
+			result = readMhtmlTree(toMimeTree(parseResult), options as MhtmlOptions | null);
+			const subject = result.headers.get('Subject');
+			if (subject) {
+				result.subject = unquoteString(subject);
+			}
+			const date = parseDate(result.headers.get('Date') as string);
+			if (date) {
+				result.date = date.date;
+			}
+		} catch (e) {
+			error = e as Error;
+		}
+	}
+	callback && callback(error, result);
+	return error || result || new Error('read MHTML failed!');
+}
+
+/**
+ * Parses the messages of an mbox file one at a time as they are iterated, e.g. `for (const message of parseMbox(mbox))`
+ * @param {EmlContent} mbox
+ * @param {MboxOptions} options `format`, 'mboxrd' by default, and options of `parseEml`
+ * @returns {MboxReader<MboxParsedMessage>} throws an InvalidInputError if the content is no mbox
+ */
+function parseMbox(mbox: EmlContent, options?: MboxOptions | null): MboxReader<MboxParsedMessage> {
+	return new MboxReader(mbox, options, (message: MboxParsedMessage) => {
+		const parsed = parse(message.raw, (options || null) as OptionOrNull);
+		if (typeof parsed === 'string' || parsed instanceof Error) {
+			message.error = toEmlParseError(parsed);
+		} else {
+			message.eml = parsed;
+		}
+		return message;
+	});
+}
+
+/**
+ * Reads the messages of an mbox file one at a time as they are iterated, e.g. `for (const message of readMbox(mbox))`
+ * @param {EmlContent} mbox
+ * @param {MboxOptions} options `format`, 'mboxrd' by default, and options of `readEml`
+ * @returns {MboxReader<MboxReadMessage>} throws an InvalidInputError if the content is no mbox
+ */
+function readMbox(mbox: EmlContent, options?: MboxOptions | null): MboxReader<MboxReadMessage> {
+	return new MboxReader(mbox, options, (message: MboxReadMessage) => {
+		const readed = read(message.raw, (options || null) as OptionOrNull);
+		if (typeof readed === 'string' || readed instanceof Error) {
+			message.error = toEmlParseError(readed);
+		} else {
+			message.eml = readed;
+		}
+		return message;
+	});
+}
+
+/**
+ * Builds EML file content as `data` of embedded messages of .msg files and TNEF, at any depth. `buildEml` writes it
+ * as it is into their message/rfc822 part.
+ * @param {ReadedEmlJson} message
+ */
+function buildEmbeddedMessages(message: ReadedEmlJson) {
+	(message.attachments || []).forEach((attachment) => {
+		if (attachment.message && !attachment.data) {
+			buildEmbeddedMessages(attachment.message);
+			const eml = build(attachment.message);
+			if (typeof eml === 'string') {
+				attachment.data = encode(eml);
+				attachment.data64 = Base64.fromUint8Array(attachment.data);
+				attachment.size = attachment.data.length;
+			}
+		}
+	});
+}
+
+/**
+ * Reads an Outlook .msg file into the shape of 'read'. Embedded messages are attachments with `message`, their `data`
+ * is built as EML file content.
+ * @param {Uint8Array | ArrayBuffer | Blob} msg
+ * @param {CallbackFn<ReadedEmlJson>} callback Callback function(error, data), required for a Blob
+ * @returns {ReadedEmlJson | Error}
+ */
+function readMsg(msg: Blob, callback: CallbackFn<ReadedEmlJson>): void | Error;
+function readMsg(msg: Uint8Array | ArrayBuffer, callback?: CallbackFn<ReadedEmlJson>): ReadedEmlJson | Error;
+function readMsg(msg: Uint8Array | ArrayBuffer | Blob, callback?: CallbackFn<ReadedEmlJson>): ReadedEmlJson | Error | void {
+	if (isBlob(msg)) {
+		const cb = callback;
+		if (!cb) {
+			return new Error('Argument "callback" expected when "msg" is a Blob!');
+		}
+		msg.arrayBuffer().then(
+			(buffer) => readMsg(buffer, cb),
+			(e) => cb(e)
+		);
+		return;
+	}
+	let error: Error | undefined;
+	let result: ReadedEmlJson | undefined;
+	try {
+		result = readMsgFile(new CompoundFile(msg));
+		setRtfBody(result);
+		buildEmbeddedMessages(result);
+	} catch (e) {
+		error = e as Error;
+	}
+	callback && callback(error, result);
+	return error || result || new Error('read MSG failed!');
+}
+
+/**
+ * Reads a TNEF stream, i.e. winmail.dat, into the shape of 'read'. `readEml` does so for application/ms-tnef parts.
+ * @param {Uint8Array | ArrayBuffer} tnef
+ * @param {CallbackFn<ReadedEmlJson>} callback Callback function(error, data)
+ * @returns {ReadedEmlJson | Error}
+ */
+function readTnef(tnef: Uint8Array | ArrayBuffer, callback?: CallbackFn<ReadedEmlJson>): ReadedEmlJson | Error {
+	let error: Error | undefined;
+	let result: ReadedEmlJson | undefined;
+	try {
+		result = readTnefStream(tnef instanceof ArrayBuffer ? new Uint8Array(tnef) : tnef);
+		setRtfBody(result);
+		buildEmbeddedMessages(result);
+	} catch (e) {
+		error = e as Error;
+	}
+	callback && callback(error, result);
+	return error || result || new Error('read TNEF failed!');
+}
+
+/**
+ * Builds an address header value, display names are RFC 2047 encoded if necessary
+ * @param {EmailAddress | EmailAddress[] | null} data
+ * @returns {String}
+ */
+function toEncodedEmailAddress(data: EmailAddress | EmailAddress[] | null): string {
+	const list = Array.isArray(data) ? data : data ? [data] : [];
+	return list
+		.map((item) => {
+			const name = (item.name || '').replace(/^"|"\s*$/g, '');
+			const encodedName = quoteString(name);
+			const phrase = encodedName === name ? '"' + name.replace(/(["\\])/g, '\\$1') + '"' : encodedName;
+			if ((item as EmailAddressGroup).group) {
+				//RFC 5322 group, e.g. 'undisclosed-recipients:;'
+				return (name ? phrase : 'undisclosed-recipients') + ':' + toEncodedEmailAddress((item as EmailAddressGroup).group) + ';';
+			}
+			const email = item.email ? '<' + item.email + '>' : '';
+			if (!name) {
+				return email;
+			}
+			return phrase + (email ? ' ' + email : '');
+		})
+		.filter((a) => a)
+		.join(',' + EOL);
+}
+
+/**
+ * Formats a header line, folding the value at its line breaks
+ * @param {String} key
+ * @param {String} value
+ * @returns {String}
+ */
+function buildHeader(key: string, value: string): string {
+	return key + ': ' + value.replace(/\r?\n[ \t]*/g, EOL + ' ') + EOL;
+}
+
+/**
+ * Serializes a MIME entity, i.e. its headers, an empty line and the body
+ * @param {BuildPart} part
+ * @returns {String}
+ */
+function buildEntity(part: BuildPart): string {
+	let eml = '';
+	for (const key of Object.keys(part.headers)) {
+		const value = part.headers[key];
+		if (typeof value === 'undefined' || value === null) {
+			continue; //Skip missing headers
+		}
+		(Array.isArray(value) ? value : [value]).forEach((v) => {
+			eml += buildHeader(key, '' + v);
+		});
+	}
+	return eml + EOL + part.body;
+}
+
+/**
+ * Wraps the parts into a multipart entity with a new boundary
+ * @param {String} subtype e.g. 'mixed' or 'alternative'
+ * @param {BuildPart[]} parts
+ * @returns {BuildPart}
+ */
+function buildMultipart(subtype: string, parts: BuildPart[]): BuildPart {
+	const boundary = createBoundary();
+	let body = '';
+	for (const part of parts) {
+		body += '--' + boundary + EOL + buildEntity(part) + EOL;
+	}
+	body += '--' + boundary + '--' + EOL;
+	return {
+		headers: { 'Content-Type': 'multipart/' + subtype + ';' + EOL + 'boundary="' + boundary + '"' },
+		body,
+	};
+}
+
+/**
+ * Builds a text part, quoted-printable unless base64 is requested by `options.encode`
+ * @param {String} mimeType
+ * @param {String} content
+ * @param {BuildOptions} options
+ * @returns {BuildPart}
+ */
+function buildTextPart(mimeType: string, content: string, options: BuildOptions): BuildPart {
+	const base64 = !!options.encode;
+	return {
+		headers: {
+			'Content-Type': mimeType + '; charset="utf-8"',
+			'Content-Transfer-Encoding': base64 ? 'base64' : 'quoted-printable',
+		},
+		body: base64 ? wrap(Base64.encode(content), 76) : quotePrintable(content),
+	};
+}
+
+/**
+ * Builds a base64 encoded attachment part
+ * @param {Attachment} attachment
+ * @param {Number} index
+ * @returns {BuildPart}
+ */
+function buildAttachmentPart(attachment: Attachment, index: number): BuildPart {
+	const name = attachment.name || 'attachment_' + (index + 1) + getFileExtension(attachment.contentType || '');
+	let filename = '"' + name.replace(/(["\\])/g, '\\$1') + '"';
+	if (quoteString(name) !== name) {
+		//RFC 2231 extended parameter for non-ASCII file names
+		filename = "*=utf-8''" + encodeURIComponent(name).replace(/['()*]/g, (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+	} else {
+		filename = '=' + filename;
+	}
+	const headers: KeyValue = {
+		'Content-Type': attachment.contentType || 'application/octet-stream; name="' + quoteString(name) + '"',
+		'Content-Transfer-Encoding': 'base64',
+		'Content-Disposition': (attachment.inline ? 'inline' : 'attachment') + ';' + EOL + 'filename' + filename,
+	};
+	if (attachment.contentId) {
+		headers['Content-ID'] = '<' + attachment.contentId + '>';
+	}
+	//`data` wins over `data64`, which `readEml` sets from it and which is not updated with it
+	let content = '';
+	if (/^\s*message\/(rfc822|global)\s*(;|$)/i.test(headers['Content-Type'])) {
+		//Attached messages may only be 7bit, 8bit or binary (RFC 2046 section 5.2.1, RFC 6532 section 3.5)
+		if (typeof attachment.data === 'string') {
+			content = attachment.data;
+		} else if (attachment.data) {
+			content = decode(attachment.data);
+		} else if (attachment.data64) {
+			content = decode(Base64.toUint8Array(attachment.data64));
+		}
+		headers['Content-Transfer-Encoding'] = /[\u0080-\uffff]/.test(content) ? '8bit' : '7bit';
+		return { headers, body: content.replace(/\r?\n/g, EOL) };
+	}
+	if (typeof attachment.data === 'string') {
+		content = Base64.encode(attachment.data);
+	} else if (attachment.data) {
+		content = Base64.fromUint8Array(attachment.data);
+	} else if (attachment.data64) {
+		content = attachment.data64.replace(/\s+/g, '');
+	}
+	return { headers, body: content ? wrap(content, 76) : '' };
+}
+
+/**
+ * Builds a part of an MHTML archive, text is quoted-printable and other content base64 encoded like Blink does
+ * @param {String} contentType
+ * @param {Uint8Array} bytes
+ * @param {String} url Content-Location
+ * @returns {BuildPart}
+ */
+function buildMhtmlPart(contentType: string, bytes: Uint8Array, url?: string): BuildPart {
+	const text = /^(text\/|image\/svg\+xml|application\/(javascript|json|xml|xhtml\+xml))/i.test(contentType);
+	const headers: KeyValue = {
+		'Content-Type': contentType,
+		'Content-Transfer-Encoding': text ? 'quoted-printable' : 'base64',
+	};
+	if (url) {
+		headers['Content-Location'] = url;
+	}
+	const body = text
+		? arr2str(bytes)
+				.split(/\r?\n/)
+				.map((line) => quotePrintable(str2arr(line)))
+				.join(EOL)
+		: wrap(Base64.fromUint8Array(bytes), 76);
+	return { headers, body };
+}
+
+/**
+ * Builds an MHTML web archive (RFC 2557) from an html document and its resources, the document is the root of the
+ * multipart/related and the resources are referenced by their Content-Location
+ * @param {MhtmlBuildData} data `{ html, url, subject, date, resources: [{ url, contentType, bytes }] }`
+ * @param {CallbackFn<string>} callback Callback function(error, mhtml)
+ * @returns {String | Error}
+ */
+function buildMhtml(data: MhtmlBuildData, callback?: CallbackFn<string>): string | Error {
+	let error: Error | string | undefined;
+	let mhtml = '';
+	try {
+		if (!data || typeof data !== 'object' || typeof data.html !== 'string') {
+			throw new InvalidInputError('Argument "data" expected to be an object with html!');
+		}
+		const parts = [buildMhtmlPart('text/html; charset="utf-8"', encode(data.html), data.url)];
+		(data.resources || []).forEach((resource) => {
+			const bytes = typeof resource.bytes === 'string' ? encode(resource.bytes) : resource.bytes;
+			parts.push(buildMhtmlPart(resource.contentType || 'application/octet-stream', bytes || new Uint8Array(0), resource.url));
+		});
+		const related = buildMultipart('related', parts);
+		related.headers['Content-Type'] = related.headers['Content-Type'].replace(
+			/^multipart\/related;/,
+			'multipart/related;' + EOL + 'type="text/html";'
+		);
+
+		const headers: KeyValue = {};
+		if (data.url) {
+			headers['Snapshot-Content-Location'] = data.url;
+		}
+		if (typeof data.subject === 'string') {
+			headers['Subject'] = quoteString(data.subject);
+		}
+		const date = data.date instanceof Date && !isNaN(data.date.getTime()) ? data.date : new Date();
+		headers['Date'] = date.toUTCString().replace(/GMT$/, '+0000');
+		headers['MIME-Version'] = '1.0';
+		mhtml = buildEntity({ headers: Object.assign(headers, related.headers), body: EOL + related.body });
+	} catch (e) {
+		error = e as Error;
+	}
+	callback && callback(error, mhtml);
+	return error || mhtml;
+}
+
+/**
+ * Builds an mboxrd file, the envelope sender is taken from Return-Path, Sender or From and the date from the Date
+ * header unless given
+ * @param {MboxBuildMessage[]} messages `[{ eml, sender, date }]`
+ * @param {CallbackFn<Uint8Array>} callback Callback function(error, mbox)
+ * @returns {Uint8Array | Error}
+ */
+function buildMbox(messages: MboxBuildMessage[], callback?: CallbackFn<Uint8Array>): Uint8Array | Error {
+	let error: Error | undefined;
+	let mbox = new Uint8Array(0);
+	try {
+		if (!Array.isArray(messages)) {
+			throw new InvalidInputError('Argument "messages" expected to be an array!');
+		}
+		mbox = writeMboxrd(
+			messages.map((message) => {
+				if (!message || typeof message !== 'object') {
+					throw new InvalidInputError('Message expected to be an object with eml!');
+				}
+				const raw = toBytes(message.eml);
+				let sender = message.sender;
+				let date = message.date instanceof Date && !isNaN(message.date.getTime()) ? message.date : undefined;
+				if (!sender || !date) {
+					const parsed = parse(raw, { headersOnly: true });
+					const headers = typeof parsed === 'string' || parsed instanceof Error ? new HeaderCollection() : parsed.headers;
+					if (!sender) {
+						const addresses = ['Return-Path', 'Sender', 'From'].map((name) => {
+							const address = getEmailAddress(headers.get(name) || '');
+							return Array.isArray(address) ? address[0] : address;
+						});
+						const address = addresses.find((found) => !!found && !!found.email);
+						sender = address ? address.email : '';
+					}
+					if (!date) {
+						const parsedDate = parseDate(headers.get('Date') as string);
+						date = parsedDate ? parsedDate.date : new Date();
+					}
+				}
+				return { raw, sender: sender || '', date: date || new Date() };
+			})
+		);
+	} catch (e) {
+		error = e as Error;
+	}
+	callback && callback(error, mbox);
+	return error || mbox;
+}
+
+/**
+ * Builds EML file content from the object of 'read'
+ * @param {String | ReadedEmlJson} data EML file content or object from 'read'
+ * @param {BuildOptions | CallbackFn<string> | null} options EML build options
+ * @param {CallbackFn<string>} callback Callback function(error, eml)
+ * @returns {String | Error}
+ */
+function build(
+	data: string | ReadedEmlJson,
+	options?: BuildOptions | CallbackFn<string> | null,
+	callback?: CallbackFn<string>
+): string | Error {
+	//Shift arguments
+	if (typeof options === 'function' && typeof callback === 'undefined') {
+		callback = options;
+		options = null;
+	}
+	if (!options || typeof options !== 'object') {
+		options = { headersOnly: false };
+	}
+	let error: Error | string | undefined;
+	let eml = '';
+	try {
+		if (typeof data === 'string') {
+			const readResult = read(data);
+			if (typeof readResult === 'string' || readResult instanceof Error) {
+				throw readResult;
+			}
+			data = readResult;
+		}
+		if (!data || typeof data !== 'object') {
+			throw new Error('Argument "data" expected to be an object or string!');
+		}
+
+		//Copy the headers, MIME related ones are generated below
+		const headers: KeyValue = {};
+		const sourceHeaders = data.headers || {};
+		for (const key of Object.keys(sourceHeaders)) {
+			if (!/^(content-(type|transfer-encoding|disposition|id)|mime-version)$/i.test(key)) {
+				headers[key] = sourceHeaders[key];
+			}
+		}
+		const setHeader = (name: string, value: string) => {
+			for (const key of Object.keys(headers)) {
+				if (key.toLowerCase() === name.toLowerCase()) {
+					delete headers[key];
+				}
+			}
+			headers[name] = value;
+		};
+		if (data.date instanceof Date && !isNaN(data.date.getTime())) {
+			setHeader('Date', data.date.toUTCString().replace(/GMT$/, '+0000'));
+		} else if (typeof data.date === 'string' && data.date) {
+			setHeader('Date', data.date);
+		}
+		if (typeof data.subject === 'string') {
+			setHeader('Subject', quoteString(data.subject));
+		}
+		if (data.from) {
+			setHeader('From', toEncodedEmailAddress(data.from));
+		}
+		if (data.to) {
+			setHeader('To', toEncodedEmailAddress(data.to));
+		}
+		if (data.cc) {
+			setHeader('Cc', toEncodedEmailAddress(data.cc));
+		}
+		if (data.bcc) {
+			setHeader('Bcc', toEncodedEmailAddress(data.bcc));
+		}
+		if (data.replyTo) {
+			setHeader('Reply-To', toEncodedEmailAddress(data.replyTo));
+		}
+		if (data.sender) {
+			setHeader('Sender', toEncodedEmailAddress(data.sender));
+		}
+		headers['MIME-Version'] = '1.0';
+
+		//Body: text and html are alternatives, attachments are mixed in
+		const bodies = [] as BuildPart[];
+		if (typeof data.text === 'string') {
+			bodies.push(buildTextPart('text/plain', data.text, options));
+		}
+		if (typeof data.html === 'string') {
+			bodies.push(buildTextPart('text/html', data.html, options));
+		}
+		let root: BuildPart;
+		if (bodies.length > 1) {
+			root = buildMultipart('alternative', bodies);
+		} else {
+			root = bodies[0] || buildTextPart('text/plain', '', options);
+		}
+		if (data.attachments && data.attachments.length) {
+			root = buildMultipart('mixed', [root, ...data.attachments.map(buildAttachmentPart)]);
+		}
+
+		eml = buildEntity({ headers: { ...headers, ...root.headers }, body: root.body });
+	} catch (e) {
+		error = e as string;
+	}
+	callback && callback(error, eml);
+	return error || eml;
+}
+
 /**
  * if you need
  * eml-format all api
@@ -774,26 +1752,110 @@ export {
 	createBoundary,
 	getBoundary,
 	getCharset,
+	getParameter,
+	parseHeaderValue,
+	parseDate,
+	getReceivedDate,
+	parseReceived,
+	getDeliveryPath,
+	parseTagList,
+	parseDkimSignature,
+	parseArcSeal,
+	parseAuthenticationResults,
+	getAuthentication,
+	verifyDkimSignatures,
+	toMimeTree,
+	walk as walkMimeTree,
+	find as findMimeNode,
+	selectAlternative,
+	resolveInlineImages,
+	rewriteUrls,
+	toDataUri,
+	parseDeliveryStatus,
+	getBounce,
+	decompressRtf,
+	deEncapsulateRtf,
+	HeaderCollection,
 	unquoteString,
 	unquotePrintable,
 	mimeDecode,
+	decodeTransferEncoding,
 	Base64,
 	convert,
 	encode,
 	decode,
 	completeBoundary,
+	quoteString,
+	quotePrintable,
 	ParsedEmlJson,
 	ReadedEmlJson,
+	EmlContent,
+	HeaderValue,
+	HeaderLine,
 	EmailAddress,
+	EmailAddressGroup,
+	AddressOptions,
+	ParsedDate,
+	ReceivedHop,
+	DkimSignature,
+	ArcSeal,
+	ArcSet,
+	AuthenticationResult,
+	AuthenticationResults,
+	EmlAuthentication,
+	DkimOptions,
+	DkimVerification,
+	MimeNode,
+	BodyPart,
+	InlineImageOptions,
+	MhtmlDocument,
+	MhtmlOptions,
+	MhtmlResource,
+	MhtmlBuildData,
+	MhtmlBuildResource,
+	DeliveryStatus,
+	DeliveryStatusMessage,
+	DeliveryStatusRecipient,
+	EmlBounce,
+	EmlStreamEvent,
+	EmlStreamPart,
+	MboxFormat,
+	MboxOptions,
+	MboxMessage,
+	MboxParsedMessage,
+	MboxReadMessage,
+	MboxBuildMessage,
+	CfbEntry,
+	RtfBody,
+	EmlSmime,
+	SmimeCertificate,
+	SmimeSigner,
+	SmimeVerification,
+	Options,
 	Attachment,
 	BoundaryHeaders,
+	BuildOptions,
 	parse as parseEml,
 	read as readEml,
+	parseAsync as parseEmlAsync,
+	readAsync as readEmlAsync,
+	parseStream as parseEmlStream,
+	EmlStreamParser,
+	parseMbox,
+	readMbox,
+	MboxReader,
+	readMsg,
+	readTnef,
+	CompoundFile,
+	verifyDkim,
+	verifySmime,
+	readMhtml,
+	EmlParseError,
+	InvalidInputError,
+	MalformedHeaderError,
+	MissingBoundaryError,
+	build as buildEml,
+	buildMhtml,
+	buildMbox,
 	GB2312UTF8 as GBKUTF8,
 };
-
-//  const GBKUTF8 = GB2312UTF8;
-
-//  const parseEml = parse;
-//  const readEml = read;
-//  const buildEml = build;
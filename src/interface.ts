@@ -1,3 +1,6 @@
+import type { EmlParseError } from './errors';
+import type { HeaderCollection } from './headers';
+
 export interface KeyValue extends Object {
 	[k: string]: any;
 }
@@ -7,12 +10,60 @@ export interface EmailAddress {
 	email: string;
 }
 
+/**
+ * RFC 5322 group, e.g. `undisclosed-recipients:;`, `email` is empty
+ */
+export interface EmailAddressGroup extends EmailAddress {
+	group: EmailAddress[];
+}
+
+/**
+ * EML file content, binary content is parsed byte by byte
+ */
+export type EmlContent = string | Uint8Array | ArrayBuffer;
+
 /**
  * parse result
+ * @description `body` holds the raw bytes of the part when parsed from binary content
  */
 export interface ParsedEmlJson {
 	headers: EmlHeaders;
-	body?: string | (BoundaryConvertedData | null)[];
+	body?: string | Uint8Array | (BoundaryConvertedData | null)[];
+}
+
+/**
+ * Entity of the MIME tree of a message, see `toMimeTree`
+ */
+export interface MimeNode {
+	// part number as in IMAP, e.g. '1.2.1', '' for the message itself
+	path: string;
+	// lowercase type/subtype, 'text/plain' if missing
+	contentType: string;
+	// Content-Type parameters, names lowercase
+	params: { [name: string]: string };
+	// lowercase Content-Disposition value, e.g. 'inline' or 'attachment'
+	disposition?: string;
+	dispositionParams: { [name: string]: string };
+	headers: HeaderCollection;
+	// entities of a multipart in their order
+	children: MimeNode[];
+	// lowercase Content-Transfer-Encoding
+	encoding?: string;
+	// body as parsed, i.e. transfer encoded, undefined for multiparts
+	body?: string | Uint8Array;
+	// decoded body, text of text/* entities, bytes otherwise, decoded on first access
+	content?: string | Uint8Array;
+}
+
+/**
+ * Inline text section of the body
+ */
+export interface BodyPart {
+	// part number, see `MimeNode`
+	path: string;
+	contentType: 'text/plain' | 'text/html';
+	content: string;
+	headers: BoundaryHeaders;
 }
 
 /**
@@ -20,11 +71,26 @@ export interface ParsedEmlJson {
  */
 export interface ReadedEmlJson {
 	date: Date | string;
+	// offset of the Date header in minutes east of UTC
+	dateOffset?: number;
+	resentDate?: Date;
 	subject: string;
 	from: EmailAddress | EmailAddress[] | null;
 	to: EmailAddress | EmailAddress[] | null;
 	cc?: EmailAddress | EmailAddress[] | null;
+	bcc?: EmailAddress | EmailAddress[] | null;
+	replyTo?: EmailAddress | EmailAddress[] | null;
+	sender?: EmailAddress | EmailAddress[] | null;
+	// not written by `buildEml`, set on delivery
+	returnPath?: EmailAddress | EmailAddress[] | null;
+	deliveredTo?: EmailAddress | EmailAddress[] | null;
 	headers: EmlHeaders;
+	// parsed Authentication-Results, DKIM-Signature and ARC-* headers, if there are any
+	authentication?: EmlAuthentication;
+	// delivery status if the message is a bounce
+	bounce?: EmlBounce;
+	// signers and certificates of S/MIME signed messages, see `verifySmime`
+	smime?: EmlSmime;
 	multipartAlternative?: {
 		'Content-Type': string;
 	};
@@ -32,12 +98,181 @@ export interface ReadedEmlJson {
 	textheaders?: BoundaryHeaders;
 	html?: string;
 	htmlheaders?: BoundaryHeaders;
+	// compressed RTF body (PR_RTF_COMPRESSED) of Outlook messages
+	rtf?: Uint8Array;
+	// inline text and html sections of the body in their order, with the best alternative of each multipart/alternative
+	bodyParts?: BodyPart[];
 	attachments?: Attachment[];
 	// data not be build
 	// if have EMl can find `data`, maybe I will know how to do
 	data?: string;
 }
 
+/**
+ * RFC 5322 date-time
+ */
+export interface ParsedDate {
+	date: Date;
+	// milliseconds since the epoch, UTC
+	timestamp: number;
+	// original offset in minutes east of UTC, e.g. 60 for +0100
+	offset: number;
+}
+
+/**
+ * One hop of the delivery path, parsed from a Received header
+ */
+export interface ReceivedHop {
+	// HELO/EHLO name, e.g. 'mail.example.com' or '[192.0.2.1]'
+	from?: string;
+	// reverse DNS name of the sending host
+	fromHost?: string;
+	fromIp?: string;
+	by?: string;
+	byIp?: string;
+	via?: string;
+	// protocol, e.g. 'ESMTPS' or 'Microsoft SMTP Server'
+	with?: string;
+	// queue id
+	id?: string;
+	// envelope recipient without angle brackets
+	for?: string;
+	tlsVersion?: string;
+	tlsCipher?: string;
+	date?: Date;
+	// milliseconds since the epoch, UTC
+	timestamp?: number;
+	// original offset in minutes east of UTC
+	offset?: number;
+	// milliseconds since the previous hop
+	delay?: number;
+	raw: string;
+}
+
+/**
+ * DKIM-Signature (RFC 6376) or ARC-Message-Signature (RFC 8617)
+ */
+export interface DkimSignature {
+	// v=, missing in ARC-Message-Signature
+	version?: string;
+	// a=, e.g. 'rsa-sha256'
+	algorithm: string;
+	// c=, 'simple' or 'relaxed'
+	canonicalization: { header: string; body: string };
+	// d=
+	domain: string;
+	// s=
+	selector: string;
+	// h=, signed header names as they are
+	headers: string[];
+	// bh=, base64
+	bodyHash: string;
+	// b=, base64
+	signature: string;
+	// i= of a DKIM-Signature
+	identity?: string;
+	// i= of an ARC-Message-Signature
+	instance?: number;
+	// l=, signed body length
+	length?: number;
+	// t= and x=, seconds since the epoch
+	timestamp?: number;
+	expiration?: number;
+	// all tags, whitespace removed
+	tags: KeyValue;
+	raw: string;
+}
+
+/**
+ * Options of `verifyDkim`
+ */
+export interface DkimOptions {
+	// gets the TXT record of `selector._domainkey.domain`, e.g. 'v=DKIM1; k=rsa; p=MIIBIjANBg...', null if there is none
+	resolveKey: (selector: string, domain: string) => Promise<string | null | undefined> | string | null | undefined;
+	// time to check the x= tag against, defaults to now
+	now?: Date;
+}
+
+/**
+ * Result of verifying one DKIM-Signature, `status` as in Authentication-Results
+ */
+export interface DkimVerification {
+	signature: DkimSignature;
+	status: 'pass' | 'fail' | 'temperror' | 'permerror';
+	reason?: string;
+	// bh= matched the canonicalized body
+	bodyHashMatches?: boolean;
+}
+
+/**
+ * ARC-Seal (RFC 8617)
+ */
+export interface ArcSeal {
+	// i=
+	instance: number;
+	// a=
+	algorithm: string;
+	// cv=, 'none', 'pass' or 'fail'
+	chainValidation: string;
+	// d=
+	domain: string;
+	// s=
+	selector: string;
+	// b=, base64
+	signature: string;
+	// t=, seconds since the epoch
+	timestamp?: number;
+	tags: KeyValue;
+	raw: string;
+}
+
+/**
+ * One method result of an Authentication-Results header, e.g. 'dkim=pass header.d=example.com'
+ */
+export interface AuthenticationResult {
+	// e.g. 'spf', 'dkim', 'dmarc' or 'arc'
+	method: string;
+	version?: number;
+	// e.g. 'pass', 'fail', 'none'
+	result: string;
+	reason?: string;
+	comment?: string;
+	// by `ptype.property`, e.g. { 'header.d': 'example.com', 'smtp.mailfrom': 'a@example.com' }
+	properties: { [property: string]: string };
+}
+
+/**
+ * Authentication-Results (RFC 8601) or ARC-Authentication-Results (RFC 8617)
+ */
+export interface AuthenticationResults {
+	authservId: string;
+	version?: number;
+	// i= of an ARC-Authentication-Results
+	instance?: number;
+	results: AuthenticationResult[];
+	raw: string;
+}
+
+/**
+ * ARC-Seal, ARC-Message-Signature and ARC-Authentication-Results of one instance
+ */
+export interface ArcSet {
+	instance: number;
+	seal?: ArcSeal;
+	messageSignature?: DkimSignature;
+	authenticationResults?: AuthenticationResults;
+}
+
+/**
+ * Authentication headers of a message, in the order of the headers, i.e. the latest first
+ */
+export interface EmlAuthentication {
+	authenticationResults: AuthenticationResults[];
+	dkimSignatures: DkimSignature[];
+	// ordered by instance
+	arc: ArcSet[];
+}
+
 /**
  * Attachment file
  */
@@ -47,11 +282,311 @@ export interface Attachment {
 	inline?: boolean;
 	size?: number;
 	contentId?: string;
+	// Content-Location, absolute or relative URL (RFC 2557)
+	contentLocation?: string;
+	// decoded content, a string is taken as text by `buildEml`
+	data?: string | Uint8Array;
+	// base64 encoded content as transferred, preferred over `data` by `buildEml`
+	data64?: string;
+	// message/rfc822 or message/global attachment read like the message, `data` keeps its raw bytes
+	message?: ReadedEmlJson;
+	// dates of the file, of Outlook messages and TNEF
+	creationDate?: Date;
+	modificationDate?: Date;
+}
+
+/**
+ * Options of `resolveInlineImages`
+ */
+export interface InlineImageOptions {
+	// URL of an attachment, e.g. from `URL.createObjectURL`, a data: URI is used if nothing is returned
+	urlFor?: (attachment: Attachment) => string | undefined | null;
+}
+
+/**
+ * Resource of an MHTML archive
+ */
+export interface MhtmlResource {
+	// part number, see `MimeNode`
+	path: string;
+	// Content-Location, may be a cid: URL
+	url?: string;
+	// Content-ID without angle brackets
+	contentId?: string;
+	// lowercase type/subtype
+	contentType: string;
+	// decoded, text of text/* resources, bytes otherwise
+	content: string | Uint8Array;
+	headers: HeaderCollection;
+}
+
+/**
+ * Result of `readMhtml`
+ */
+export interface MhtmlDocument {
+	// URL of the saved page
+	snapshotContentLocation?: string;
+	subject?: string;
+	date?: Date;
+	headers: HeaderCollection;
+	// root document of the multipart/related
+	root?: MhtmlResource;
+	// text of an html root, with rewritten URLs with `rewrite`
+	html?: string;
+	// by Content-Location and by 'cid:' + Content-ID
+	resources: { [url: string]: MhtmlResource };
+}
+
+/**
+ * Options of `readMhtml`
+ */
+export interface MhtmlOptions {
+	// rewrite the URLs of the root document to data: URIs of the resources, so that it renders offline
+	rewrite?: boolean;
+	// URL of a resource instead of a data: URI, e.g. from `URL.createObjectURL`, stylesheets and frames are not rewritten then
+	urlFor?: (resource: MhtmlResource) => string | undefined | null;
+}
+
+/**
+ * Resource of `buildMhtml`
+ */
+export interface MhtmlBuildResource {
+	// Content-Location, as referenced from the html
+	url: string;
+	contentType: string;
+	// a string is encoded as UTF-8
+	bytes: Uint8Array | string;
+}
+
+/**
+ * Input of `buildMhtml`
+ */
+export interface MhtmlBuildData {
+	html: string;
+	// URL of the page, Snapshot-Content-Location and Content-Location of the html
+	url?: string;
+	subject?: string;
+	// defaults to now
+	date?: Date;
+	resources?: MhtmlBuildResource[];
+}
+
+/**
+ * Per-message fields of a delivery status notification (RFC 3464 section 2.2)
+ */
+export interface DeliveryStatusMessage {
+	// MTA that generated the report, without the type, e.g. 'mx.example.com' of 'dns; mx.example.com'
+	reportingMta?: string;
+	dsnGateway?: string;
+	receivedFromMta?: string;
+	arrivalDate?: Date;
+	originalEnvelopeId?: string;
+	// all fields as they are
+	fields: HeaderCollection;
+}
+
+/**
+ * Per-recipient fields of a delivery status notification (RFC 3464 section 2.3)
+ */
+export interface DeliveryStatusRecipient {
+	// addresses without the type, e.g. 'user@example.com' of 'rfc822; user@example.com'
+	originalRecipient?: string;
+	finalRecipient: string;
+	// 'failed', 'delayed', 'delivered', 'relayed' or 'expanded'
+	action: string;
+	// enhanced status code (RFC 3463), e.g. '5.1.1'
+	status: string;
+	remoteMta?: string;
+	// e.g. '550 5.1.1 User unknown' of 'smtp; 550 5.1.1 User unknown'
+	diagnosticCode?: string;
+	lastAttemptDate?: Date;
+	finalLogId?: string;
+	willRetryUntil?: Date;
+	// all fields as they are, empty for heuristic bounces
+	fields: HeaderCollection;
+}
+
+/**
+ * Content of a message/delivery-status part
+ */
+export interface DeliveryStatus {
+	message: DeliveryStatusMessage;
+	recipients: DeliveryStatusRecipient[];
+}
+
+/**
+ * Bounce of a message, from a multipart/report (RFC 3464) or guessed from a non-standard report
+ */
+export interface EmlBounce extends DeliveryStatus {
+	// 'dsn' for delivery status notifications, 'heuristic' for guesses from the text of other reports
+	type: 'dsn' | 'heuristic';
+	// headers of the returned message, from text/rfc822-headers, message/rfc822 or the quoted text
+	originalHeaders?: HeaderCollection;
+	// Message-ID of the returned message without angle brackets
+	originalMessageId?: string;
+}
+
+/**
+ * Entity of a message being streamed, like a `MimeNode` without body and children
+ */
+export interface EmlStreamPart {
+	// part number as in IMAP, e.g. '1.2.1', '' for the message itself
+	path: string;
+	// lowercase type/subtype, 'text/plain' if missing
+	contentType: string;
+	params: { [name: string]: string };
+	disposition?: string;
+	dispositionParams: { [name: string]: string };
+	// lowercase Content-Transfer-Encoding
+	encoding?: string;
+	// complete once the part starts
+	headers: HeaderCollection;
+}
+
+/**
+ * Event of `EmlStreamParser`. Parts start after their headers and end after their body or their last part, bodies of
+ * leaves come in chunks with the transfer encoding (base64, quoted-printable) decoded, multiparts have no body chunks
+ */
+export type EmlStreamEvent =
+	| { type: 'header'; path: string; header: HeaderLine }
+	| { type: 'part-start'; part: EmlStreamPart }
+	| { type: 'body-chunk'; part: EmlStreamPart; data: Uint8Array }
+	| { type: 'part-end'; part: EmlStreamPart; size: number };
+
+/**
+ * Variant of the mbox format, see `MboxReader`
+ */
+export type MboxFormat = 'mboxo' | 'mboxrd' | 'mboxcl' | 'mboxcl2';
+
+/**
+ * Options of the mbox reader, the others are passed to `parseEml` or `readEml`
+ */
+export interface MboxOptions extends Partial<Options> {
+	// 'mboxrd' by default
+	format?: MboxFormat;
+}
+
+/**
+ * Message of an mbox file
+ */
+export interface MboxMessage {
+	// envelope sender of the 'From ' line, e.g. 'user@example.com' or 'MAILER-DAEMON'
+	sender: string;
+	// envelope date of the 'From ' line
+	date?: Date;
+	// the 'From ' line without 'From '
+	fromLine: string;
+	// offset of the 'From ' line in bytes
+	offset: number;
+	// the message with quoted '>From ' lines unquoted
+	raw: Uint8Array;
+}
+
+export interface MboxParsedMessage extends MboxMessage {
+	eml?: ParsedEmlJson;
+	// the message could not be parsed
+	error?: EmlParseError;
+}
+
+export interface MboxReadMessage extends MboxMessage {
+	eml?: ReadedEmlJson;
+	// the message could not be read
+	error?: EmlParseError;
+}
+
+/**
+ * Message to write to an mbox file
+ */
+export interface MboxBuildMessage {
+	eml: EmlContent;
+	// envelope sender, the address of Return-Path, Sender or From by default
+	sender?: string;
+	// envelope date, the Date header or now by default
+	date?: Date;
+}
+
+/**
+ * html or text encapsulated in RTF, see `deEncapsulateRtf`
+ */
+export interface RtfBody {
+	type: 'html' | 'text';
+	content: string;
+}
+
+/**
+ * X.509 certificate of S/MIME signed data
+ */
+export interface SmimeCertificate {
+	// distinguished names, e.g. 'CN=Alice,O=Example,C=DE'
+	subject: string;
+	issuer: string;
+	// hexadecimal
+	serialNumber: string;
+	notBefore: Date;
+	notAfter: Date;
+	// emailAddress of the subject and rfc822Name of subjectAltName
+	emails: string[];
+	commonName?: string;
+	// e.g. 'RSA', 'EC' or 'Ed25519'
+	publicKeyAlgorithm: string;
+	selfSigned: boolean;
+	der: Uint8Array;
+}
+
+/**
+ * Signer info of S/MIME signed data
+ */
+export interface SmimeSigner {
+	// missing if the certificate is not embedded
+	certificate?: SmimeCertificate;
+	// e.g. 'SHA-256'
+	digestAlgorithm: string;
+	// e.g. 'RSASSA-PKCS1-v1_5', 'RSA-PSS' or 'ECDSA'
+	signatureAlgorithm: string;
+	signingTime?: Date;
+}
+
+/**
+ * S/MIME signature of a message, `signed` for multipart/signed and `opaque` for application/pkcs7-mime
+ */
+export interface EmlSmime {
+	type: 'signed' | 'opaque';
+	signers: SmimeSigner[];
+	// all embedded certificates
+	certificates: SmimeCertificate[];
+}
+
+/**
+ * Result of verifying one signer of S/MIME signed data
+ */
+export interface SmimeVerification {
+	signer: SmimeSigner;
+	status: 'pass' | 'fail' | 'permerror';
+	reason?: string;
+	// messageDigest of the signed attributes matched the content
+	digestMatches?: boolean;
+	// signer certificate first, up to a self-signed one or the last embedded issuer, whose trust is up to the caller
+	chain: SmimeCertificate[];
+	// the chain ends in a self-signed certificate and all of its signatures verified
+	chainVerified: boolean;
+}
+
+/**
+ * Storage or stream of a compound file, see `CompoundFile`
+ */
+export interface CfbEntry {
+	name: string;
+	type: 'root' | 'storage' | 'stream' | 'unknown';
+	// size of a stream in bytes, of the mini stream for the root
+	size: number;
+	// entries of a storage
+	children: CfbEntry[];
 }
 
 /**
  * EML headers
- * @description `MIME-Version`, `Accept-Language`, `Content-Language` and `Content-Type` shuld Must exist when to build a EML file
+ * @description `MIME-Version`, `Accept-Language`, `Content-Language` and `Content-Type` shuld Must exist when to build a EML file.
+ * Headers returned by `parseEml` and `readEml` are a `HeaderCollection` with case-insensitive `get`, `getAll` and `has`.
  */
 export interface EmlHeaders extends KeyValue {
 	Date?: string;
@@ -59,7 +594,6 @@ export interface EmlHeaders extends KeyValue {
 	From?: string;
 	To?: string;
 	Cc?: string;
-	CC?: string;
 	'Content-Disposition'?: string | null;
 	'Content-Type'?: string | null;
 	'Content-Transfer-Encoding'?: string;
@@ -69,20 +603,59 @@ export interface EmlHeaders extends KeyValue {
 	'Accept-Language'?: string;
 	// zh-CN
 	'Content-Language'?: string;
-	// Why not all ?
-	// OutLook is follows
-	'Content-type'?: string | null;
-	'Content-transfer-encoding'?: string;
 }
 
-export interface Options {
+/**
+ * A header in its original order
+ */
+export interface HeaderLine {
+	name: string;
+	// unfolded value, continuation lines are joined with '\r\n'
+	value: string;
+	// header line(s) as they appeared, including the name and folding whitespace
+	raw: string;
+}
+
+/**
+ * Structured header value, e.g. of Content-Type or Content-Disposition
+ */
+export interface HeaderValue {
+	value: string;
+	// lowercase parameter names with decoded values
+	params: KeyValue;
+}
+
+export interface AddressOptions {
+	// always return address fields as arrays instead of an object for a single address
+	addressArray?: boolean;
+	// replace groups by their members
+	addressFlatten?: boolean;
+}
+
+export interface Options extends AddressOptions {
 	headersOnly: boolean;
+	// throw on malformed header lines and multipart entities without boundary
+	strict?: boolean;
+	// content types to pick from multipart/alternative, the first is preferred, 'text/*' matches any text
+	// default ['text/html', 'text/plain']
+	alternativePreference?: string[];
+	// keep winmail.dat (application/ms-tnef) in `attachments` next to the attachments decoded from it
+	keepTnef?: boolean;
 }
 /**
- * encode is not realized yet
+ * build options
  */
 export interface BuildOptions extends Options {
-	encode?: boolean; // Not realized yet
+	// encode text and html bodies as base64 instead of quoted-printable
+	encode?: boolean;
+}
+
+/**
+ * MIME entity assembled by `buildEml`
+ */
+export interface BuildPart {
+	headers: KeyValue;
+	body: string;
 }
 
 export type CallbackFn<T> = (error: any, result?: T) => void;
@@ -103,7 +676,7 @@ export interface BoundaryConvertedData {
 	boundary: string;
 	part: {
 		headers: BoundaryHeaders;
-		body: string | Array<BoundaryConvertedData | string>;
+		body: string | Uint8Array | Array<BoundaryConvertedData | string>;
 	};
 }
 export interface BoundaryHeaders extends KeyValue {
@@ -0,0 +1,321 @@
+import { Base64 } from 'js-base64';
+import { decode, getCodepageCharset } from './charset';
+import { HeaderCollection } from './headers';
+import type { Attachment, EmailAddress, ReadedEmlJson } from './interface';
+
+//Property types, MS-OXCDATA section 2.11.1
+export const PT_SHORT = 0x0002;
+export const PT_LONG = 0x0003;
+export const PT_BOOLEAN = 0x000b;
+export const PT_OBJECT = 0x000d;
+export const PT_STRING8 = 0x001e;
+export const PT_UNICODE = 0x001f;
+export const PT_SYSTIME = 0x0040;
+export const PT_BINARY = 0x0102;
+
+//Property ids, MS-OXPROPS
+export const PR_MESSAGE_CLASS = 0x001a;
+export const PR_SUBJECT = 0x0037;
+export const PR_CLIENT_SUBMIT_TIME = 0x0039;
+const PR_SENT_REPRESENTING_NAME = 0x0042;
+const PR_SENT_REPRESENTING_ADDRTYPE = 0x0064;
+const PR_SENT_REPRESENTING_EMAIL_ADDRESS = 0x0065;
+const PR_TRANSPORT_MESSAGE_HEADERS = 0x007d;
+export const PR_RECIPIENT_TYPE = 0x0c15;
+const PR_SENDER_NAME = 0x0c1a;
+const PR_SENDER_ADDRTYPE = 0x0c1e;
+const PR_SENDER_EMAIL_ADDRESS = 0x0c1f;
+export const PR_MESSAGE_DELIVERY_TIME = 0x0e06;
+export const PR_BODY = 0x1000;
+const PR_RTF_COMPRESSED = 0x1009;
+const PR_HTML = 0x1013;
+const PR_INTERNET_MESSAGE_ID = 0x1035;
+const PR_INTERNET_REFERENCES = 0x1039;
+const PR_IN_REPLY_TO_ID = 0x1042;
+const PR_DISPLAY_NAME = 0x3001;
+const PR_ADDRTYPE = 0x3002;
+const PR_EMAIL_ADDRESS = 0x3003;
+export const PR_CREATION_TIME = 0x3007;
+export const PR_LAST_MODIFICATION_TIME = 0x3008;
+export const PR_ATTACH_DATA = 0x3701;
+export const PR_ATTACH_FILENAME = 0x3704;
+export const PR_ATTACH_METHOD = 0x3705;
+const PR_ATTACH_LONG_FILENAME = 0x3707;
+const PR_ATTACH_MIME_TAG = 0x370e;
+const PR_ATTACH_CONTENT_ID = 0x3712;
+const PR_ATTACH_CONTENT_LOCATION = 0x3713;
+const PR_SMTP_ADDRESS = 0x39fe;
+const PR_INTERNET_CPID = 0x3fde;
+const PR_MESSAGE_CODEPAGE = 0x3ffd;
+const PR_SENDER_SMTP_ADDRESS = 0x5d01;
+const PR_SENT_REPRESENTING_SMTP_ADDRESS = 0x5d02;
+const PR_ATTACHMENT_HIDDEN = 0x7ffe;
+
+export const ATTACH_EMBEDDED_MSG = 5;
+
+export type MapiValue = string | number | boolean | Date | Uint8Array;
+
+/**
+ * Properties of a message, recipient or attachment by property id, as stored in .msg files and TNEF streams
+ */
+export interface MapiProperties {
+	[id: number]: MapiValue | undefined;
+}
+
+/**
+ * Converts a FILETIME, i.e. 100 nanosecond intervals since 1601-01-01 UTC
+ *
+ * @param {Number} low
+ * @param {Number} high
+ * @return {Date}
+ */
+export function filetime(low: number, high: number): Date {
+	return new Date((high * 0x100000000 + low) / 10000 - 11644473600000);
+}
+
+/**
+ * Gets the charset of 8-bit strings from the code page properties
+ *
+ * @param {MapiProperties} properties
+ * @param {String} charset Charset if there is no code page, e.g. of the enclosing message
+ * @return {String}
+ */
+export function getMapiCharset(properties: MapiProperties, charset?: string): string {
+	const codepage = properties[PR_MESSAGE_CODEPAGE] || properties[PR_INTERNET_CPID];
+	return typeof codepage === 'number' ? getCodepageCharset(codepage) : charset || 'windows-1252';
+}
+
+/**
+ * @param {MapiProperties} properties
+ * @param {Number} id
+ * @return {String} empty if the property is missing or no string
+ */
+function _string(properties: MapiProperties, id: number): string {
+	const value = properties[id];
+	return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Gets an address of a message, recipient or sender. Exchange addresses ('EX') are X.500 names, their SMTP address is
+ * taken if there is one. Recipients typed in by hand may have their address as display name only.
+ *
+ * @param {String} name Display name
+ * @param {String} type Address type, e.g. 'SMTP' or 'EX'
+ * @param {String} address
+ * @param {String} smtp SMTP address
+ * @return {EmailAddress|null} null if there is neither name nor address
+ */
+function _address(name: string, type: string, address: string, smtp: string): EmailAddress | null {
+	let email = smtp || (type.toUpperCase() === 'EX' ? '' : address);
+	if (!email && /^[^\s@<>"]+@[^\s@<>"]+$/.test(name)) {
+		email = name;
+	}
+	return name || email ? { name: name || email, email } : null;
+}
+
+/**
+ * @param {EmailAddress[]} addresses
+ * @return {EmailAddress|EmailAddress[]|null} An address for a single one, like `getEmailAddress`
+ */
+function _addressList(addresses: EmailAddress[]): EmailAddress | EmailAddress[] | null {
+	return addresses.length > 1 ? addresses : addresses[0] || null;
+}
+
+/**
+ * Formats addresses for a header
+ *
+ * @param {EmailAddress[]} addresses
+ * @return {String}
+ */
+function _addressHeader(addresses: EmailAddress[]): string {
+	return addresses
+		.map(
+			(address) =>
+				(address.name && address.name !== address.email ? '"' + address.name.replace(/(["\\])/g, '\\$1') + '" ' : '') +
+				'<' +
+				address.email +
+				'>'
+		)
+		.join(', ');
+}
+
+/**
+ * Converts the properties of an attachment, embedded messages are left to the caller
+ *
+ * @param {MapiProperties} properties
+ * @return {Attachment}
+ */
+export function toAttachment(properties: MapiProperties): Attachment {
+	const attachment: Attachment = {};
+	const name =
+		_string(properties, PR_ATTACH_LONG_FILENAME) || _string(properties, PR_ATTACH_FILENAME) || _string(properties, PR_DISPLAY_NAME);
+	if (name) {
+		attachment.name = name;
+	}
+	const mimeTag = _string(properties, PR_ATTACH_MIME_TAG);
+	if (mimeTag) {
+		attachment.contentType = mimeTag;
+	}
+	const contentId = _string(properties, PR_ATTACH_CONTENT_ID).replace(/^<|>$/g, '');
+	if (contentId) {
+		attachment.contentId = contentId;
+	}
+	const contentLocation = _string(properties, PR_ATTACH_CONTENT_LOCATION);
+	if (contentLocation) {
+		attachment.contentLocation = contentLocation.replace(/\s+/g, '');
+	}
+	//Inline images are hidden from the attachment list of Outlook
+	attachment.inline = properties[PR_ATTACHMENT_HIDDEN] === true;
+	const creationDate = properties[PR_CREATION_TIME];
+	if (creationDate instanceof Date) {
+		attachment.creationDate = creationDate;
+	}
+	const modificationDate = properties[PR_LAST_MODIFICATION_TIME];
+	if (modificationDate instanceof Date) {
+		attachment.modificationDate = modificationDate;
+	}
+	const data = properties[PR_ATTACH_DATA];
+	if (data instanceof Uint8Array) {
+		attachment.data = data;
+		attachment.data64 = Base64.fromUint8Array(data);
+		attachment.size = data.length;
+	}
+	return attachment;
+}
+
+/**
+ * Converts the properties of a message into the shape of `readEml`
+ *
+ * @param {MapiProperties} properties
+ * @param {MapiProperties[]} recipientList Properties of the recipients
+ * @param {Attachment[]} attachments
+ * @param {String} charset Charset of 8-bit strings, for html without code page
+ * @return {ReadedEmlJson}
+ */
+export function toMessage(
+	properties: MapiProperties,
+	recipientList: MapiProperties[],
+	attachments: Attachment[],
+	charset: string
+): ReadedEmlJson {
+	const result = {} as ReadedEmlJson;
+
+	const date = properties[PR_CLIENT_SUBMIT_TIME] || properties[PR_MESSAGE_DELIVERY_TIME] || properties[PR_CREATION_TIME];
+	if (date instanceof Date) {
+		result.date = date;
+	}
+	const subject = properties[PR_SUBJECT];
+	if (typeof subject === 'string') {
+		result.subject = subject;
+	}
+
+	//The sender on behalf of whom the message was sent is the author, like From and Sender
+	const from = _address(
+		_string(properties, PR_SENT_REPRESENTING_NAME),
+		_string(properties, PR_SENT_REPRESENTING_ADDRTYPE),
+		_string(properties, PR_SENT_REPRESENTING_EMAIL_ADDRESS),
+		_string(properties, PR_SENT_REPRESENTING_SMTP_ADDRESS)
+	);
+	const sender = _address(
+		_string(properties, PR_SENDER_NAME),
+		_string(properties, PR_SENDER_ADDRTYPE),
+		_string(properties, PR_SENDER_EMAIL_ADDRESS),
+		_string(properties, PR_SENDER_SMTP_ADDRESS)
+	);
+	if (from || sender) {
+		result.from = from || sender;
+	}
+	if (from && sender && from.email.toLowerCase() !== sender.email.toLowerCase()) {
+		result.sender = sender;
+	}
+
+	const recipients: { [type: number]: EmailAddress[] } = { 1: [], 2: [], 3: [] };
+	recipientList.forEach((recipient) => {
+		const address = _address(
+			_string(recipient, PR_DISPLAY_NAME),
+			_string(recipient, PR_ADDRTYPE),
+			_string(recipient, PR_EMAIL_ADDRESS),
+			_string(recipient, PR_SMTP_ADDRESS)
+		);
+		const list = recipients[recipient[PR_RECIPIENT_TYPE] as number];
+		if (address && list) {
+			list.push(address);
+		}
+	});
+	if (recipients[1].length) {
+		result.to = _addressList(recipients[1]);
+	}
+	if (recipients[2].length) {
+		result.cc = _addressList(recipients[2]);
+	}
+	if (recipients[3].length) {
+		result.bcc = _addressList(recipients[3]);
+	}
+
+	//Received messages keep their headers, the ones of drafts and sent messages are made up of the properties
+	const transportHeaders = _string(properties, PR_TRANSPORT_MESSAGE_HEADERS);
+	let headers: HeaderCollection;
+	if (transportHeaders.trim()) {
+		headers = HeaderCollection.parse(transportHeaders.replace(/^\s+/, '').split(/\r?\n/));
+	} else {
+		headers = new HeaderCollection();
+		if (result.date) {
+			headers.add('Date', (result.date as Date).toUTCString().replace(/GMT$/, '+0000'));
+		}
+		if (result.from) {
+			headers.add('From', _addressHeader([result.from as EmailAddress]));
+		}
+		if (result.sender) {
+			headers.add('Sender', _addressHeader([result.sender as EmailAddress]));
+		}
+		[
+			{ name: 'To', type: 1 },
+			{ name: 'Cc', type: 2 },
+			{ name: 'Bcc', type: 3 },
+		].forEach(({ name, type }) => {
+			if (recipients[type].length) {
+				headers.add(name, _addressHeader(recipients[type]));
+			}
+		});
+		if (typeof result.subject === 'string') {
+			headers.add('Subject', result.subject);
+		}
+		[
+			{ name: 'Message-ID', id: PR_INTERNET_MESSAGE_ID },
+			{ name: 'In-Reply-To', id: PR_IN_REPLY_TO_ID },
+			{ name: 'References', id: PR_INTERNET_REFERENCES },
+		].forEach(({ name, id }) => {
+			const value = _string(properties, id);
+			if (value) {
+				headers.add(name, value);
+			}
+		});
+	}
+	const messageClass = _string(properties, PR_MESSAGE_CLASS);
+	if (messageClass && !headers.has('X-MS-Message-Class')) {
+		headers.add('X-MS-Message-Class', messageClass);
+	}
+	result.headers = headers;
+
+	//Bodies, html is binary in the code page of the internet message
+	const text = properties[PR_BODY];
+	if (typeof text === 'string') {
+		result.text = text;
+	}
+	const html = properties[PR_HTML];
+	if (typeof html === 'string') {
+		result.html = html;
+	} else if (html instanceof Uint8Array) {
+		const cpid = properties[PR_INTERNET_CPID];
+		result.html = decode(html, typeof cpid === 'number' ? getCodepageCharset(cpid) : charset).replace(/\0+$/, '');
+	}
+	const rtf = properties[PR_RTF_COMPRESSED];
+	if (rtf instanceof Uint8Array) {
+		result.rtf = rtf;
+	}
+
+	if (attachments.length) {
+		result.attachments = attachments;
+	}
+	return result;
+}
@@ -0,0 +1,213 @@
+import { arr2str, str2arr } from './charset';
+import { parseDate } from './dateparser';
+import { InvalidInputError } from './errors';
+import type { EmlContent, MboxFormat, MboxMessage, MboxOptions } from './interface';
+import { toBytes } from './utils';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Checks for a 'From ' separator line at an offset
+ *
+ * @param {Uint8Array} bytes
+ * @param {Number} offset
+ * @return {Boolean}
+ */
+function _isFromLine(bytes: Uint8Array, offset: number): boolean {
+	//'From '
+	return (
+		bytes[offset] === 70 && bytes[offset + 1] === 114 && bytes[offset + 2] === 111 && bytes[offset + 3] === 109 && bytes[offset + 4] === 32
+	);
+}
+
+/**
+ * Finds the next 'From ' separator line at the start of a line
+ *
+ * @param {Uint8Array} bytes
+ * @param {Number} offset Start of a line
+ * @return {Number} Offset of the line, -1 if there is none
+ */
+function _nextFromLine(bytes: Uint8Array, offset: number): number {
+	while (offset >= 0 && offset < bytes.length) {
+		if (_isFromLine(bytes, offset)) {
+			return offset;
+		}
+		const lf = bytes.indexOf(10, offset);
+		offset = lf < 0 ? -1 : lf + 1;
+	}
+	return -1;
+}
+
+/**
+ * Formats the date of a 'From ' line like asctime(), in UTC, e.g. 'Thu Sep  1 12:22:20 2022'
+ *
+ * @param {Date} date
+ * @return {String}
+ */
+function _asctime(date: Date): string {
+	const pad = (value: number) => (value < 10 ? '0' : '') + value;
+	return (
+		DAYS[date.getUTCDay()] +
+		' ' +
+		MONTHS[date.getUTCMonth()] +
+		' ' +
+		(date.getUTCDate() < 10 ? ' ' : '') +
+		date.getUTCDate() +
+		' ' +
+		pad(date.getUTCHours()) +
+		':' +
+		pad(date.getUTCMinutes()) +
+		':' +
+		pad(date.getUTCSeconds()) +
+		' ' +
+		date.getUTCFullYear()
+	);
+}
+
+/**
+ * Reads the messages of an mbox file one at a time, i.e. a message is only split off and converted when it is
+ * iterated. Messages start with a 'From ' line of the envelope sender and date. Quoted '>From ' lines in bodies are
+ * unquoted by the format: mboxrd removes one '>' of '>From ', '>>From ', ..., mboxo and mboxcl only of '>From ', and
+ * mboxcl2 does not quote but gives the length of the body in Content-Length, as mboxcl does.
+ */
+export class MboxReader<T extends MboxMessage = MboxMessage> implements IterableIterator<T> {
+	private _bytes: Uint8Array;
+	private _format: MboxFormat;
+	private _convert: (message: MboxMessage) => T;
+	//Offset of the next 'From ' line, -1 at the end
+	private _offset: number;
+
+	/**
+	 * @param {EmlContent} mbox
+	 * @param {MboxOptions} options `format` of the file, 'mboxrd' by default
+	 * @param {Function} convert Converts each message, e.g. by parsing it
+	 */
+	constructor(mbox: EmlContent, options?: MboxOptions | null, convert?: (message: MboxMessage) => T) {
+		this._bytes = toBytes(mbox);
+		this._format = (options && options.format) || 'mboxrd';
+		if (['mboxo', 'mboxrd', 'mboxcl', 'mboxcl2'].indexOf(this._format) < 0) {
+			throw new InvalidInputError('Unsupported mbox format "' + this._format + '"!');
+		}
+		this._convert = convert || ((message) => message as T);
+		this._offset = _nextFromLine(this._bytes, 0);
+		if (this._offset < 0 && this._bytes.length) {
+			throw new InvalidInputError('No "From " line found!');
+		}
+	}
+
+	/**
+	 * Splits off the next message
+	 * @returns {IteratorResult} The message or done at the end of the file
+	 */
+	next(): IteratorResult<T> {
+		const bytes = this._bytes;
+		const offset = this._offset;
+		if (offset < 0) {
+			return { done: true, value: undefined };
+		}
+		let lf = bytes.indexOf(10, offset);
+		if (lf < 0) {
+			lf = bytes.length;
+		}
+		const fromLine = arr2str(bytes.subarray(offset + 5, lf)).replace(/\r$/, '');
+		const start = Math.min(lf + 1, bytes.length);
+
+		let end = -1;
+		if (this._format === 'mboxcl' || this._format === 'mboxcl2') {
+			end = this._contentLengthEnd(start);
+		}
+		let raw: string;
+		if (end < 0) {
+			const next = _nextFromLine(bytes, start);
+			end = next < 0 ? bytes.length : next;
+			this._offset = next;
+			//The empty line before the next 'From ' line is added by the writer
+			raw = arr2str(bytes.subarray(start, end)).replace(/\r?\n(?=\r?\n$)/, '');
+		} else {
+			raw = arr2str(bytes.subarray(start, end));
+		}
+		if (this._format === 'mboxrd') {
+			raw = raw.replace(/^>(>*From )/gm, '$1');
+		} else if (this._format !== 'mboxcl2') {
+			raw = raw.replace(/^>From /gm, 'From ');
+		}
+
+		const message: MboxMessage = { sender: '', fromLine, offset, raw: str2arr(raw) };
+		//'From sender@example.com Thu Sep 29 12:22:20 2022', the date may have a zone
+		const match = /^(\S*)\s*(.*)$/.exec(fromLine.trim()) as RegExpExecArray;
+		message.sender = match[1];
+		const date = parseDate(match[2]);
+		if (date) {
+			message.date = date.date;
+		}
+		return { done: false, value: this._convert(message) };
+	}
+
+	[Symbol.iterator](): IterableIterator<T> {
+		return this;
+	}
+
+	/**
+	 * Gets the end of a message from its Content-Length header, and the offset of the next 'From ' line
+	 *
+	 * @param {Number} start Offset of the headers
+	 * @return {Number} Offset of the end of the body, -1 if there is no Content-Length or no 'From ' line at its end
+	 */
+	private _contentLengthEnd(start: number): number {
+		const bytes = this._bytes;
+		let offset = start;
+		let length = -1;
+		while (offset < bytes.length) {
+			let lf = bytes.indexOf(10, offset);
+			if (lf < 0) {
+				lf = bytes.length;
+			}
+			const line = arr2str(bytes.subarray(offset, lf)).replace(/\r$/, '');
+			offset = lf + 1;
+			if (line === '') {
+				break;
+			}
+			const match = /^content-length:\s*(\d+)\s*$/i.exec(line);
+			if (match) {
+				length = parseInt(match[1], 10);
+			}
+		}
+		const end = offset + length;
+		if (length < 0 || end > bytes.length) {
+			return -1;
+		}
+		//The next message may follow an empty line
+		for (const next of [end, end + 1, end + 2]) {
+			if (next >= bytes.length) {
+				this._offset = -1;
+				return end;
+			}
+			if (_isFromLine(bytes, next) && bytes[next - 1] === 10) {
+				this._offset = next;
+				return end;
+			}
+		}
+		return -1;
+	}
+}
+
+/**
+ * Writes messages as an mboxrd file, lines of bodies starting with 'From ', '>From ', '>>From ', ... are quoted with
+ * another '>', line breaks are taken from each message
+ *
+ * @param {Array} messages Raw messages with the envelope sender and date of their 'From ' line
+ * @return {Uint8Array}
+ */
+export function writeMboxrd(messages: { raw: Uint8Array; sender: string; date: Date }[]): Uint8Array {
+	const chunks = messages.map((message) => {
+		let raw = arr2str(message.raw);
+		const eol = /\r\n/.test(raw) ? '\r\n' : '\n';
+		if (!/\n$/.test(raw)) {
+			raw += eol;
+		}
+		const sender = message.sender.replace(/\s+/g, '') || 'MAILER-DAEMON';
+		return 'From ' + sender + ' ' + _asctime(message.date) + eol + raw.replace(/^(>*From )/gm, '>$1') + eol;
+	});
+	return str2arr(chunks.join(''));
+}
@@ -0,0 +1,148 @@
+import { Base64 } from 'js-base64';
+import { decode, encode } from './charset';
+import type { MhtmlDocument, MhtmlOptions, MhtmlResource, MimeNode } from './interface';
+import { find, walk } from './mimetree';
+import { resolveUrl, rewriteUrls } from './related';
+
+/**
+ * Converts a leaf of the MIME tree into a resource
+ *
+ * @param {MimeNode} node
+ * @return {MhtmlResource}
+ */
+function _toResource(node: MimeNode): MhtmlResource {
+	let content = node.content as string | Uint8Array;
+	//xhtml is no text/* type, so it is decoded here
+	if (node.contentType === 'application/xhtml+xml' && content instanceof Uint8Array) {
+		content = decode(content, node.params['charset'] || 'utf-8');
+	}
+	const resource: MhtmlResource = {
+		path: node.path,
+		contentType: node.contentType,
+		content,
+		headers: node.headers,
+	};
+	const location = node.headers.get('Content-Location');
+	if (location) {
+		resource.url = location.replace(/\s+/g, '');
+	}
+	const contentId = node.headers.get('Content-ID');
+	if (contentId) {
+		resource.contentId = contentId.trim().replace(/^<|>$/g, '');
+	}
+	return resource;
+}
+
+/**
+ * Gets a resource referenced from a document
+ *
+ * @param {MhtmlDocument} mhtml
+ * @param {String} url Reference as it appears, e.g. 'cid:css-1@mhtml.blink' or '../style.css'
+ * @param {String} base URL of the referencing document
+ * @return {MhtmlResource|undefined}
+ */
+function _lookup(mhtml: MhtmlDocument, url: string, base?: string): MhtmlResource | undefined {
+	if (mhtml.resources.hasOwnProperty(url)) {
+		return mhtml.resources[url];
+	}
+	if (/^cid:/i.test(url)) {
+		try {
+			const cid = 'cid:' + decodeURIComponent(url.substring(4));
+			return mhtml.resources.hasOwnProperty(cid) ? mhtml.resources[cid] : undefined;
+		} catch (e) {
+			return undefined;
+		}
+	}
+	const resolved = resolveUrl(url, base);
+	return mhtml.resources.hasOwnProperty(resolved) ? mhtml.resources[resolved] : undefined;
+}
+
+/**
+ * Rewrites the URLs of a document to data: URIs, or to the URLs of `options.urlFor`, so that it renders offline.
+ * Referenced html and css documents, i.e. frames and stylesheets, are rewritten as well.
+ *
+ * @param {MhtmlDocument} mhtml
+ * @param {MhtmlResource} resource html or css document
+ * @param {MhtmlOptions} options
+ * @param {MhtmlResource[]} stack Documents being rewritten, references back to them are kept
+ * @return {String} The rewritten document
+ */
+function _rewrite(mhtml: MhtmlDocument, resource: MhtmlResource, options: MhtmlOptions, stack: MhtmlResource[] = []): string {
+	const urls = [] as { resource: MhtmlResource; url: string }[];
+	return rewriteUrls(String(resource.content), (url) => {
+		const target = _lookup(mhtml, url, resource.url);
+		if (!target || stack.indexOf(target) >= 0 || target === resource) {
+			return undefined;
+		}
+		for (const known of urls) {
+			if (known.resource === target) {
+				return known.url;
+			}
+		}
+		let replacement = options.urlFor ? options.urlFor(target) : undefined;
+		if (!replacement) {
+			if (/^text\/(html|css)$/.test(target.contentType)) {
+				const text = _rewrite(mhtml, target, options, stack.concat(resource));
+				replacement = 'data:' + target.contentType + ';charset=utf-8;base64,' + Base64.fromUint8Array(encode(text));
+			} else {
+				const bytes = typeof target.content === 'string' ? encode(target.content) : target.content;
+				replacement = 'data:' + target.contentType + ';base64,' + Base64.fromUint8Array(bytes);
+			}
+		}
+		urls.push({ resource: target, url: replacement });
+		return replacement;
+	});
+}
+
+/**
+ * Reads an MHTML web archive (RFC 2557), i.e. a multipart/related whose root document is selected by the `start`
+ * parameter, or the first part of the `type` parameter or the first part (RFC 2387).
+ * Resources are mapped by their Content-Location and by `cid:` and their Content-ID.
+ *
+ * @param {MimeNode} tree MIME tree of the archive, see `toMimeTree`
+ * @param {MhtmlOptions} options `rewrite` rewrites the URLs of the root document to the resources
+ * @return {MhtmlDocument}
+ */
+export function readMhtmlTree(tree: MimeNode, options?: MhtmlOptions | null): MhtmlDocument {
+	const mhtml: MhtmlDocument = { headers: tree.headers, resources: {} };
+	const snapshot = tree.headers.get('Snapshot-Content-Location');
+	if (snapshot) {
+		mhtml.snapshotContentLocation = snapshot.trim();
+	}
+
+	const resources = [] as MhtmlResource[];
+	walk(tree, (node) => {
+		if (typeof node.body !== 'undefined') {
+			const resource = _toResource(node);
+			resources.push(resource);
+			//The first of the same location wins
+			if (resource.url && !mhtml.resources.hasOwnProperty(resource.url)) {
+				mhtml.resources[resource.url] = resource;
+			}
+			if (resource.contentId && !mhtml.resources.hasOwnProperty('cid:' + resource.contentId)) {
+				mhtml.resources['cid:' + resource.contentId] = resource;
+			}
+		}
+	});
+
+	//Root document
+	let rootNode: MimeNode | undefined = tree;
+	if (tree.contentType === 'multipart/related') {
+		const start = (tree.params['start'] || '').trim();
+		const type = (tree.params['type'] || '').toLowerCase().trim();
+		rootNode =
+			(start && tree.children.find((child) => (child.headers.get('Content-ID') || '').trim() === start)) ||
+			(type && tree.children.find((child) => child.contentType === type)) ||
+			tree.children[0];
+	}
+	//The root may be a multipart itself, e.g. multipart/alternative
+	const leaf = rootNode && find(rootNode, (node) => typeof node.body !== 'undefined');
+	const root = leaf && resources.find((resource) => resource.path === leaf.path);
+	if (root) {
+		mhtml.root = root;
+		if (typeof root.content === 'string' && /^(text\/html|application\/xhtml\+xml)$/.test(root.contentType)) {
+			mhtml.html = options && options.rewrite ? _rewrite(mhtml, root, options) : root.content;
+		}
+	}
+	return mhtml;
+}
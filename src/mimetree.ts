@@ -0,0 +1,158 @@
+import { decode } from './charset';
+import { HeaderCollection } from './headers';
+import type { BoundaryConvertedData, KeyValue, MimeNode, ParsedEmlJson } from './interface';
+import { parseHeaderValue } from './paramparser';
+import { decodeTransferEncoding } from './utils';
+
+/**
+ * Decodes the body of an entity, text is decoded with its charset, other content to bytes
+ *
+ * @param {MimeNode} node Entity with its body
+ * @return {String|Uint8Array}
+ */
+function _decodeContent(node: MimeNode): string | Uint8Array {
+	const body = node.body as string | Uint8Array;
+	if (!/^text\//.test(node.contentType)) {
+		return decodeTransferEncoding(body, node.encoding);
+	}
+	//Text of string content is decoded already unless it is transfer encoded
+	if (typeof body === 'string' && !/^(base64|quoted-printable)$/.test(node.encoding || '')) {
+		return body;
+	}
+	return decode(decodeTransferEncoding(body, node.encoding), node.params['charset'] || 'utf-8');
+}
+
+/**
+ * Converts an entity of `parseEml` and its parts into MIME tree nodes
+ *
+ * @param {ParsedEmlJson} entity Headers and body
+ * @param {String} path Part number
+ * @param {String} defaultType Content type if there is no Content-Type header, RFC 2046 section 5.1.5
+ * @return {MimeNode}
+ */
+function _toNode(entity: ParsedEmlJson, path: string, defaultType: string): MimeNode {
+	const headers = HeaderCollection.from(entity.headers);
+	const contentType = parseHeaderValue(headers.get('Content-Type') || '');
+	const node: MimeNode = {
+		path,
+		contentType: contentType.value.toLowerCase() || defaultType,
+		params: contentType.params,
+		dispositionParams: {},
+		headers,
+		children: [],
+	};
+	const disposition = headers.get('Content-Disposition');
+	if (disposition) {
+		const parsed = parseHeaderValue(disposition);
+		node.disposition = parsed.value.toLowerCase();
+		node.dispositionParams = parsed.params;
+	}
+	const encoding = headers.get('Content-Transfer-Encoding');
+	if (encoding) {
+		node.encoding = encoding.toLowerCase().trim();
+	}
+
+	if (Array.isArray(entity.body)) {
+		const childType = node.contentType === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+		entity.body.forEach((boundary: BoundaryConvertedData | null) => {
+			if (boundary && boundary.part && typeof boundary.part === 'object') {
+				const childPath = (path ? path + '.' : '') + (node.children.length + 1);
+				node.children.push(_toNode(boundary.part as KeyValue as ParsedEmlJson, childPath, childType));
+			}
+		});
+	} else if (typeof entity.body === 'string' || entity.body instanceof Uint8Array) {
+		node.body = entity.body;
+		//Decoded on first access, `readEml` decodes the bodies itself
+		let content: string | Uint8Array | undefined;
+		Object.defineProperty(node, 'content', {
+			get: () => (typeof content === 'undefined' ? (content = _decodeContent(node)) : content),
+			set: (value: string | Uint8Array) => {
+				content = value;
+			},
+			enumerable: true,
+			configurable: true,
+		});
+	}
+	return node;
+}
+
+/**
+ * Converts the result of `parseEml` into a tree of MIME entities of any depth, with part numbers like in IMAP, i.e. the
+ * message is '', its parts '1', '2', ... and their parts '1.1', '1.2', ...
+ *
+ * @param {ParsedEmlJson} parsed Result of `parseEml`
+ * @return {MimeNode} The message
+ */
+export function toMimeTree(parsed: ParsedEmlJson): MimeNode {
+	return _toNode(parsed, '', 'text/plain');
+}
+
+/**
+ * Visits a node and its descendants depth-first in document order
+ *
+ * @param {MimeNode} node
+ * @param {Function} visitor Called with the node and its depth, returning false skips the children of the node
+ */
+export function walk(node: MimeNode, visitor: (node: MimeNode, depth: number) => void | boolean, depth = 0) {
+	if (visitor(node, depth) === false) {
+		return;
+	}
+	node.children.forEach((child) => walk(child, visitor, depth + 1));
+}
+
+/**
+ * Finds the first node in document order that matches
+ *
+ * @param {MimeNode} node
+ * @param {Function} predicate
+ * @return {MimeNode|undefined}
+ */
+export function find(node: MimeNode, predicate: (node: MimeNode) => boolean): MimeNode | undefined {
+	if (predicate(node)) {
+		return node;
+	}
+	for (const child of node.children) {
+		const found = find(child, predicate);
+		if (found) {
+			return found;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets the content type an entity is displayed as, i.e. the type of the root of a multipart/related (RFC 2387)
+ *
+ * @param {MimeNode} node
+ * @return {String}
+ */
+function _displayType(node: MimeNode): string {
+	if (node.contentType !== 'multipart/related' || !node.children.length) {
+		return node.contentType;
+	}
+	const start = node.params['start'];
+	const root = (start && find(node, (child) => child.headers.get('Content-ID') === start)) || node.children[0];
+	return _displayType(root);
+}
+
+/**
+ * Selects the alternative of a multipart/alternative to display (RFC 2046 section 5.1.4), alternatives are ordered by
+ * increasing faithfulness, so the last one of the most preferred type is taken
+ *
+ * @param {MimeNode} node multipart/alternative
+ * @param {String[]} preference Content types, the first is preferred, e.g. ['text/html', 'text/plain'] or ['text/*']
+ * @return {MimeNode|undefined} The last alternative if none matches
+ */
+export function selectAlternative(node: MimeNode, preference: string[]): MimeNode | undefined {
+	const alternatives = node.children;
+	for (const pattern of preference) {
+		const lower = pattern.toLowerCase();
+		for (let i = alternatives.length - 1; i >= 0; i--) {
+			const type = _displayType(alternatives[i]);
+			if (type === lower || (/\/\*$/.test(lower) && type.indexOf(lower.substring(0, lower.length - 1)) === 0)) {
+				return alternatives[i];
+			}
+		}
+	}
+	return alternatives[alternatives.length - 1];
+}
@@ -0,0 +1,147 @@
+import { decode } from './charset';
+import type { CompoundFile } from './cfb';
+import type { Attachment, CfbEntry, ReadedEmlJson } from './interface';
+import {
+	ATTACH_EMBEDDED_MSG,
+	filetime,
+	getMapiCharset,
+	type MapiProperties,
+	PR_ATTACH_DATA,
+	PR_ATTACH_METHOD,
+	PT_BINARY,
+	PT_BOOLEAN,
+	PT_LONG,
+	PT_OBJECT,
+	PT_SHORT,
+	PT_STRING8,
+	PT_SYSTIME,
+	PT_UNICODE,
+	toAttachment,
+	toMessage,
+} from './mapi';
+
+/**
+ * Reads the properties of a storage, fixed size values from its property stream, the others from their own streams
+ * (MS-OXMSG section 2.4)
+ *
+ * @param {CompoundFile} cfb
+ * @param {CfbEntry} storage
+ * @param {Number} headerSize Size of the header of the property stream, 32 for the message, 24 for embedded messages,
+ * 8 for recipients and attachments
+ * @param {String} charset Charset of 8-bit strings, from the code page of the storage if it has one
+ * @return {MapiProperties}
+ */
+function _readProperties(cfb: CompoundFile, storage: CfbEntry, headerSize: number, charset?: string): MapiProperties {
+	const properties: MapiProperties = {};
+	const stream = cfb.child(storage, '__properties_version1.0');
+	if (stream) {
+		const bytes = cfb.read(stream);
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		for (let offset = headerSize; offset + 16 <= bytes.length; offset += 16) {
+			const tag = view.getUint32(offset, true);
+			const id = tag >>> 16;
+			const type = tag & 0xffff;
+			if (type === PT_SHORT) {
+				properties[id] = view.getInt16(offset + 8, true);
+			} else if (type === PT_LONG) {
+				properties[id] = view.getInt32(offset + 8, true);
+			} else if (type === PT_BOOLEAN) {
+				properties[id] = view.getUint16(offset + 8, true) !== 0;
+			} else if (type === PT_SYSTIME) {
+				properties[id] = filetime(view.getUint32(offset + 8, true), view.getUint32(offset + 12, true));
+			}
+		}
+	}
+	const stringCharset = getMapiCharset(properties, charset);
+
+	//Unicode strings are preferred over 8-bit strings of the same property
+	const streams = [] as { id: number; type: number; entry: CfbEntry }[];
+	storage.children.forEach((entry) => {
+		const match = /^__substg1\.0_([0-9a-f]{4})([0-9a-f]{4})$/i.exec(entry.name);
+		if (match && entry.type === 'stream') {
+			streams.push({ id: parseInt(match[1], 16), type: parseInt(match[2], 16), entry });
+		}
+	});
+	streams.sort((a, b) => (a.type === PT_UNICODE ? 1 : 0) - (b.type === PT_UNICODE ? 1 : 0));
+	streams.forEach(({ id, type, entry }) => {
+		if (type === PT_UNICODE) {
+			properties[id] = decode(cfb.read(entry), 'utf-16le').replace(/\0+$/, '');
+		} else if (type === PT_STRING8) {
+			properties[id] = decode(cfb.read(entry), stringCharset).replace(/\0+$/, '');
+		} else if (type === PT_BINARY) {
+			properties[id] = cfb.read(entry);
+		}
+	});
+	return properties;
+}
+
+/**
+ * @param {Number} value Property id or type
+ * @return {String} 4 hexadecimal digits as in stream names, e.g. '000D'
+ */
+function _hex(value: number): string {
+	return ('000' + value.toString(16).toUpperCase()).slice(-4);
+}
+
+/**
+ * Reads an attachment storage
+ *
+ * @param {CompoundFile} cfb
+ * @param {CfbEntry} storage
+ * @param {String} charset Charset of the message
+ * @return {Attachment}
+ */
+function _readAttachment(cfb: CompoundFile, storage: CfbEntry, charset: string): Attachment {
+	const properties = _readProperties(cfb, storage, 8, charset);
+	const attachment = toAttachment(properties);
+	const embedded = cfb.child(storage, '__substg1.0_' + _hex(PR_ATTACH_DATA) + _hex(PT_OBJECT));
+	if (properties[PR_ATTACH_METHOD] === ATTACH_EMBEDDED_MSG && embedded && embedded.type === 'storage') {
+		const message = _readMessage(cfb, embedded, 24, charset);
+		attachment.message = message;
+		attachment.contentType = 'message/rfc822';
+		if (!attachment.name) {
+			attachment.name = (message.subject || 'message') + '.eml';
+		}
+	}
+	return attachment;
+}
+
+/**
+ * Reads a message storage
+ *
+ * @param {CompoundFile} cfb
+ * @param {CfbEntry} storage
+ * @param {Number} headerSize Size of the header of the property stream
+ * @param {String} charset Charset of the enclosing message
+ * @return {ReadedEmlJson}
+ */
+function _readMessage(cfb: CompoundFile, storage: CfbEntry, headerSize: number, charset?: string): ReadedEmlJson {
+	const properties = _readProperties(cfb, storage, headerSize, charset);
+	const messageCharset = getMapiCharset(properties, charset);
+	//Recipients and attachments in the order of their storages
+	const recipients = [] as MapiProperties[];
+	const attachments = [] as Attachment[];
+	storage.children.forEach((child) => {
+		if (child.type !== 'storage') {
+			return;
+		}
+		if (/^__recip_version1\.0_/i.test(child.name)) {
+			recipients.push(_readProperties(cfb, child, 8, messageCharset));
+		} else if (/^__attach_version1\.0_/i.test(child.name)) {
+			attachments.push(_readAttachment(cfb, child, messageCharset));
+		}
+	});
+	return toMessage(properties, recipients, attachments, messageCharset);
+}
+
+/**
+ * Reads an Outlook message (MS-OXMSG) into the shape of `readEml`, i.e. subject, addresses, date, text, html and
+ * compressed RTF body, attachments with their data and embedded messages as attachments with `message`.
+ * Embedded messages have no `data`, it is up to the caller to build it.
+ *
+ * @param {CompoundFile} cfb The .msg file
+ * @return {ReadedEmlJson}
+ */
+export function readMsgFile(cfb: CompoundFile): ReadedEmlJson {
+	return _readMessage(cfb, cfb.root, 32);
+}
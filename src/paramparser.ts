@@ -0,0 +1,139 @@
+import { decode, encode } from './charset';
+import type { HeaderValue, KeyValue } from './interface';
+
+/**
+ * Splits a header value at the semicolons outside of quoted strings
+ *
+ * @param {String} str Unfolded header value
+ * @return {Array} Value and `attribute=value` parts
+ */
+function _split(str: string): string[] {
+	const parts = [] as string[];
+	let current = '';
+	let quoted = false;
+	for (let i = 0; i < str.length; i++) {
+		const chr = str.charAt(i);
+		if (quoted && chr === '\\' && i + 1 < str.length) {
+			current += chr + str.charAt(++i);
+			continue;
+		}
+		if (chr === '"') {
+			quoted = !quoted;
+		} else if (chr === ';' && !quoted) {
+			parts.push(current);
+			current = '';
+			continue;
+		}
+		current += chr;
+	}
+	parts.push(current);
+	return parts;
+}
+
+/**
+ * Removes the quotes of a quoted-string and its backslash escapes
+ *
+ * @param {String} str
+ * @return {String}
+ */
+function _unquote(str: string): string {
+	str = str.trim();
+	if (str.length > 1 && str.charAt(0) === '"' && str.charAt(str.length - 1) === '"') {
+		return str.substring(1, str.length - 1).replace(/\\(.)/g, '$1');
+	}
+	return str;
+}
+
+/**
+ * Decodes %XX sequences of an RFC 2231 extended value to bytes, other characters are taken as they are
+ *
+ * @param {String} str
+ * @return {Array} Bytes
+ */
+function _percentDecode(str: string): number[] {
+	const bytes = [] as number[];
+	for (let i = 0; i < str.length; i++) {
+		const hex = str.substr(i + 1, 2);
+		if (str.charAt(i) === '%' && /^[\da-fA-F]{2}$/.test(hex)) {
+			bytes.push(parseInt(hex, 16));
+			i += 2;
+		} else {
+			Array.prototype.push.apply(bytes, Array.prototype.slice.call(encode(str.charAt(i))));
+		}
+	}
+	return bytes;
+}
+
+/**
+ * Parses a structured header value like Content-Type or Content-Disposition into its value and parameters,
+ * RFC 2231 continuations (`name*0`, `name*1*`), charsets and language tags (`name*=iso-8859-1'de'...`) are decoded.
+ * Parameter names are lowercase, RFC 2047 encoded-words in quoted values are left as they are.
+ *
+ * @param {String} str Header value, e.g. 'attachment; filename*=utf-8\'\'%E2%82%AC.txt'
+ * @return {HeaderValue} Parsed value, e.g. { value: 'attachment', params: { filename: '€.txt' } }
+ */
+export function parseHeaderValue(str: string): HeaderValue {
+	//Unfolded by removing the line breaks only, the whitespace after them is part of the value (RFC 5322 section 2.2.3)
+	const parts = _split((str || '').replace(/\r?\n/g, ''));
+	const result: HeaderValue = { value: (parts.shift() || '').trim(), params: {} };
+
+	//RFC 2231 sections of each parameter, by name and index
+	const sections: { [name: string]: { index: number; encoded: boolean; value: string }[] } = {};
+	parts.forEach((part) => {
+		const eq = part.indexOf('=');
+		if (eq < 0) {
+			return;
+		}
+		const key = part.substring(0, eq).trim().toLowerCase();
+		const value = _unquote(part.substring(eq + 1));
+		const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key);
+		if (!match) {
+			return;
+		}
+		const name = match[1];
+		if (typeof match[2] === 'undefined' && !match[3]) {
+			//Plain parameter, an extended one of the same name takes precedence
+			if (!sections[name]) {
+				result.params[name] = value;
+			}
+			return;
+		}
+		(sections[name] = sections[name] || []).push({ index: match[2] ? parseInt(match[2], 10) : 0, encoded: !!match[3], value });
+	});
+
+	Object.keys(sections).forEach((name) => {
+		const list = sections[name].sort((a, b) => a.index - b.index);
+		let charset = '';
+		const bytes = [] as number[];
+		list.forEach((section, i) => {
+			let value = section.value;
+			if (section.encoded && i === 0) {
+				//charset'language'value
+				const match = /^([^']*)'([^']*)'([\s\S]*)$/.exec(value);
+				if (match) {
+					charset = match[1];
+					value = match[3];
+				}
+			}
+			Array.prototype.push.apply(bytes, section.encoded ? _percentDecode(value) : Array.prototype.slice.call(encode(value)));
+		});
+		result.params[name] = decode(new Uint8Array(bytes), charset || 'utf-8');
+	});
+
+	return result;
+}
+
+/**
+ * Gets a single parameter of a structured header value
+ *
+ * @param {String} str Header value
+ * @param {String} name Parameter name, case-insensitive
+ * @return {String|undefined} Decoded parameter value
+ */
+export function getParameter(str: string | undefined | null, name: string): string | undefined {
+	if (!str) {
+		return undefined;
+	}
+	const params: KeyValue = parseHeaderValue(str).params;
+	return params[name.toLowerCase()];
+}
@@ -0,0 +1,156 @@
+import { getReceivedDate } from './dateparser';
+import { HeaderCollection } from './headers';
+import type { KeyValue, ReceivedHop } from './interface';
+
+const KEYWORDS = ['from', 'by', 'via', 'with', 'id', 'for'];
+
+/**
+ * Splits the clauses of a Received header into words and comments, comments may be nested
+ *
+ * @param {String} str Received header value without the date
+ * @return {Array} Tokens, e.g. [{ type: 'word', value: 'from' }, { type: 'comment', value: 'localhost [127.0.0.1]' }]
+ */
+function _tokenize(str: string): { type: 'word' | 'comment'; value: string }[] {
+	const tokens = [] as { type: 'word' | 'comment'; value: string }[];
+	let current = '';
+	let depth = 0;
+	const push = (type: 'word' | 'comment') => {
+		if (current.trim()) {
+			tokens.push({ type, value: current.trim() });
+		}
+		current = '';
+	};
+	for (let i = 0; i < str.length; i++) {
+		const chr = str.charAt(i);
+		if (chr === '(') {
+			if (!depth++) {
+				push('word');
+				continue;
+			}
+		} else if (chr === ')' && depth) {
+			if (!--depth) {
+				push('comment');
+				continue;
+			}
+		} else if (!depth && /\s/.test(chr)) {
+			push('word');
+			continue;
+		}
+		current += chr;
+	}
+	push(depth ? 'comment' : 'word');
+	return tokens;
+}
+
+/**
+ * Finds an IP address, either as a domain literal, e.g. '[192.0.2.1]' or '[IPv6:2001:db8::1]', or a bare address
+ *
+ * @param {String} str
+ * @return {String|undefined}
+ */
+function _findIp(str: string): string | undefined {
+	const literal = /\[(?:IPv6:)?([0-9a-fA-F:.]+)(?:%[^\]]*)?\]/i.exec(str);
+	if (literal) {
+		return literal[1];
+	}
+	const bare = /(?:^|[\s(])((?:\d{1,3}\.){3}\d{1,3}|[0-9a-fA-F]{0,4}(?::[0-9a-fA-F]{0,4}){2,7})(?=$|[\s);,])/.exec(str);
+	return bare ? bare[1] : undefined;
+}
+
+/**
+ * Parses a Received header into its clauses, e.g.
+ * 'from mail.example.com (mail.example.com [192.0.2.1]) by mx.example.org with ESMTPS id 123 for <a@example.org>; <date>'
+ *
+ * @param {String} received Value of a Received header
+ * @return {ReceivedHop} The hop, its date and TLS details, the delay is set by `getDeliveryPath`
+ */
+export function parseReceived(received: string): ReceivedHop {
+	const raw = received || '';
+	const value = raw.replace(/\r?\n[ \t]*/g, ' ');
+	const hop: ReceivedHop = { raw };
+
+	const dateIndex = value.lastIndexOf(';');
+	const parsedDate = getReceivedDate(value);
+	if (parsedDate) {
+		hop.date = parsedDate.date;
+		hop.timestamp = parsedDate.timestamp;
+		hop.offset = parsedDate.offset;
+	}
+
+	//Clauses with their words and comments
+	const clauses: { [keyword: string]: { words: string[]; comments: string[] } } = {};
+	const comments = [] as string[];
+	let clause: { words: string[]; comments: string[] } | undefined;
+	_tokenize(dateIndex < 0 ? value : value.substring(0, dateIndex)).forEach((token) => {
+		if (token.type === 'comment') {
+			comments.push(token.value);
+			clause && clause.comments.push(token.value);
+		} else if (KEYWORDS.indexOf(token.value.toLowerCase()) >= 0 && !clauses[token.value.toLowerCase()]) {
+			clause = clauses[token.value.toLowerCase()] = { words: [], comments: [] };
+		} else if (clause) {
+			clause.words.push(token.value);
+		}
+	});
+
+	const from = clauses['from'];
+	if (from) {
+		hop.from = from.words.join(' ') || undefined;
+		const info = from.comments.join(' ');
+		hop.fromIp = _findIp(info) || _findIp(hop.from || '');
+		//Reverse DNS name, e.g. '(mail.example.com. [192.0.2.1])'
+		const host = /^([a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)+)\.?(?=\s|$)/i.exec(info);
+		if (host && !/^[\d.]+$/.test(host[1])) {
+			hop.fromHost = host[1];
+		}
+	}
+	const by = clauses['by'];
+	if (by) {
+		hop.by = by.words.join(' ') || undefined;
+		hop.byIp = _findIp(by.comments.join(' ')) || _findIp(hop.by || '');
+	}
+	if (clauses['via']) {
+		hop.via = clauses['via'].words.join(' ') || undefined;
+	}
+	if (clauses['with']) {
+		hop.with = clauses['with'].words.join(' ') || undefined;
+	}
+	if (clauses['id']) {
+		hop.id = clauses['id'].words[0];
+	}
+	if (clauses['for']) {
+		hop.for = (clauses['for'].words[0] || '').replace(/^<|>$/g, '') || undefined;
+	}
+
+	//TLS, e.g. '(version=TLS1_2 cipher=ECDHE-RSA-AES128-GCM-SHA256 bits=128/128)' or '(using TLSv1.3 with cipher TLS_AES_256_GCM_SHA384 (256/256 bits))'
+	const allComments = comments.join(' ');
+	const cipher = /cipher[=\s]+([A-Za-z0-9_-]+)/i.exec(allComments);
+	if (cipher) {
+		hop.tlsCipher = cipher[1];
+	}
+	const version = /(?:version=|using\s+)(TLS[A-Za-z0-9_.]*|SSL[A-Za-z0-9_.]*)/i.exec(allComments);
+	if (version) {
+		hop.tlsVersion = version[1];
+	}
+
+	return hop;
+}
+
+/**
+ * Gets the delivery path of a message from its Received headers, in chronological order, i.e. the first hop is the
+ * sending host. `delay` is the time in milliseconds since the previous hop, if both have a date.
+ *
+ * @param {KeyValue} headers `ParsedEmlJson.headers` or `ReadedEmlJson.headers`
+ * @return {ReceivedHop[]}
+ */
+export function getDeliveryPath(headers: KeyValue): ReceivedHop[] {
+	//Every hop prepends its Received header
+	const hops = HeaderCollection.from(headers).getAll('Received').map(parseReceived).reverse();
+	for (let i = 1; i < hops.length; i++) {
+		const previous = hops[i - 1].timestamp;
+		const current = hops[i].timestamp;
+		if (typeof previous === 'number' && typeof current === 'number') {
+			hops[i].delay = current - previous;
+		}
+	}
+	return hops;
+}
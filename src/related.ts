@@ -0,0 +1,132 @@
+import { Base64 } from 'js-base64';
+import type { Attachment, InlineImageOptions, KeyValue, ReadedEmlJson } from './interface';
+import { HeaderCollection } from './headers';
+
+/**
+ * Resolves a URL against a base URL, URLs that cannot be resolved are returned as they are
+ *
+ * @param {String} url
+ * @param {String} base
+ * @return {String}
+ */
+export function resolveUrl(url: string, base?: string): string {
+	try {
+		return base ? new URL(url, base).href : new URL(url).href;
+	} catch (e) {
+		return url;
+	}
+}
+
+/**
+ * Rewrites the URLs of an HTML document, i.e. the values of src, href, background, poster and cite attributes and CSS
+ * url() references, entities in attribute values are not decoded
+ *
+ * @param {String} html
+ * @param {Function} replacer Gets a URL and returns its replacement, or undefined to keep it
+ * @return {String}
+ */
+export function rewriteUrls(html: string, replacer: (url: string) => string | undefined | null): string {
+	const replace = (url: string) => {
+		const replacement = replacer(url.trim());
+		return typeof replacement === 'string' && replacement ? replacement : url;
+	};
+	return html
+		.replace(/(\s(?:src|href|background|poster|cite)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi, (match, prefix, dq, sq, bare) => {
+			if (typeof dq === 'string') {
+				return prefix + '"' + replace(dq) + '"';
+			}
+			if (typeof sq === 'string') {
+				return prefix + "'" + replace(sq) + "'";
+			}
+			return prefix + replace(bare);
+		})
+		.replace(/(url\(\s*)(?:"([^"]*)"|'([^']*)'|([^)"'\s]+))(\s*\))/gi, (match, prefix, dq, sq, bare, suffix) => {
+			if (typeof dq === 'string') {
+				return prefix + '"' + replace(dq) + '"' + suffix;
+			}
+			if (typeof sq === 'string') {
+				return prefix + "'" + replace(sq) + "'" + suffix;
+			}
+			return prefix + replace(bare) + suffix;
+		});
+}
+
+/**
+ * Gets a data: URI of an attachment
+ *
+ * @param {Attachment} attachment
+ * @return {String}
+ */
+export function toDataUri(attachment: Attachment): string {
+	const mimeType = (attachment.contentType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+	let data64 = attachment.data64;
+	if (!data64) {
+		const data = attachment.data;
+		data64 = typeof data === 'string' ? Base64.encode(data) : data ? Base64.fromUint8Array(data) : '';
+	}
+	return 'data:' + mimeType + ';base64,' + data64;
+}
+
+/**
+ * Decodes the %XX escapes of a cid: URL, RFC 2392
+ *
+ * @param {String} url e.g. 'cid:foo4%25foo1@bar.net'
+ * @return {String} Content-ID without angle brackets, e.g. 'foo4%foo1@bar.net'
+ */
+function _cid(url: string): string {
+	const id = url.substring(4);
+	try {
+		return decodeURIComponent(id);
+	} catch (e) {
+		return id;
+	}
+}
+
+/**
+ * Rewrites the references to attachments in the html of a read message to data: URIs or URLs of the caller, e.g.
+ * object URLs. `cid:` URLs are matched with the Content-ID (RFC 2392), other URLs with the Content-Location of the
+ * attachments, relative ones resolved against the Content-Location or Content-Base of the html (RFC 2557).
+ *
+ * @param {ReadedEmlJson} readed Result of `readEml`
+ * @param {InlineImageOptions} options `urlFor(attachment)` gets the URL of an attachment, a data: URI if it returns nothing
+ * @return {String} The html, empty if there is none
+ */
+export function resolveInlineImages(readed: ReadedEmlJson, options?: InlineImageOptions | null): string {
+	const html = readed && typeof readed.html === 'string' ? readed.html : '';
+	const attachments = (readed && readed.attachments) || [];
+	if (!html || !attachments.length) {
+		return html;
+	}
+	const htmlheaders = HeaderCollection.from((readed.htmlheaders || {}) as KeyValue);
+	const headers = HeaderCollection.from(readed.headers);
+	const base =
+		htmlheaders.get('Content-Location') ||
+		htmlheaders.get('Content-Base') ||
+		headers.get('Content-Location') ||
+		headers.get('Content-Base') ||
+		undefined;
+
+	const urls: { [index: number]: string } = {};
+	const urlFor = (attachment: Attachment) => {
+		const key = attachments.indexOf(attachment);
+		if (!urls.hasOwnProperty(key)) {
+			urls[key] = (options && options.urlFor && options.urlFor(attachment)) || toDataUri(attachment);
+		}
+		return urls[key];
+	};
+
+	return rewriteUrls(html, (url) => {
+		let attachment: Attachment | undefined;
+		if (/^cid:/i.test(url)) {
+			const cid = _cid(url);
+			attachment = attachments.find((candidate) => !!candidate.contentId && candidate.contentId === cid);
+		} else {
+			const resolved = resolveUrl(url, base);
+			attachment = attachments.find(
+				(candidate) =>
+					!!candidate.contentLocation && (candidate.contentLocation === url || resolveUrl(candidate.contentLocation, base) === resolved)
+			);
+		}
+		return attachment ? urlFor(attachment) : undefined;
+	});
+}
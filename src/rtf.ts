@@ -0,0 +1,251 @@
+import { arr2str, decode, getCodepageCharset, str2arr } from './charset';
+import { InvalidInputError } from './errors';
+import type { ReadedEmlJson, RtfBody } from './interface';
+
+//Initial dictionary of compressed RTF, MS-OXRTFCP section 2.1.2.1
+const PREBUFFER =
+	'{\\rtf1\\ansi\\mac\\deff0\\deftab720{\\fonttbl;}{\\f0\\fnil \\froman \\fswiss \\fmodern \\fscript \\fdecor MS Sans SerifSymbolArialTimes New RomanCourier{\\colortbl\\red0\\green0\\blue0\r\n\\par \\pard\\plain\\f0\\fs20\\b\\i\\u\\tab\\tx';
+const COMPRESSED = 0x75465a4c; //'LZFu'
+const UNCOMPRESSED = 0x414c454d; //'MELA'
+
+//Destinations that are no content of the document
+const IGNORED_DESTINATIONS =
+	/^(fonttbl|colortbl|stylesheet|info|pict|object|listtable|listoverridetable|rsidtbl|generator|themedata|colorschememapping|latentstyles|datastore|xmlnstbl|header[lrf]?|footer[lrf]?|ftnsep|ftnsepc|aftnsep|aftnsepc)$/;
+
+/**
+ * Decompresses compressed RTF, e.g. PR_RTF_COMPRESSED of Outlook messages (MS-OXRTFCP), the CRC is not checked
+ *
+ * @param {Uint8Array} data
+ * @return {Uint8Array} The RTF document
+ */
+export function decompressRtf(data: Uint8Array): Uint8Array {
+	if (!(data instanceof Uint8Array) || data.length < 16) {
+		throw new InvalidInputError('Compressed RTF expected!');
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const compressedSize = view.getUint32(0, true);
+	const rawSize = view.getUint32(4, true);
+	const type = view.getUint32(8, true);
+	const end = Math.min(compressedSize + 4, data.length);
+	if (type === UNCOMPRESSED) {
+		return data.slice(16, Math.min(16 + rawSize, data.length));
+	}
+	if (type !== COMPRESSED) {
+		throw new InvalidInputError('Unknown type of compressed RTF!');
+	}
+
+	const dictionary = new Uint8Array(4096);
+	dictionary.set(str2arr(PREBUFFER));
+	let write = PREBUFFER.length;
+	const output = new Uint8Array(rawSize);
+	let length = 0;
+	const put = (byte: number) => {
+		if (length < output.length) {
+			output[length++] = byte;
+		}
+		dictionary[write] = byte;
+		write = (write + 1) % 4096;
+	};
+	let offset = 16;
+	while (offset < end) {
+		const control = data[offset++];
+		for (let bit = 0; bit < 8 && offset < end; bit++) {
+			if (!(control & (1 << bit))) {
+				put(data[offset++]);
+				continue;
+			}
+			if (offset + 1 >= end) {
+				offset = end;
+				break;
+			}
+			//12 bits of the offset in the dictionary and 4 bits of the length
+			const reference = (data[offset] << 8) | data[offset + 1];
+			offset += 2;
+			const read = reference >> 4;
+			if (read === write) {
+				//End of the stream
+				return output.subarray(0, length);
+			}
+			const count = (reference & 0xf) + 2;
+			for (let i = 0; i < count; i++) {
+				put(dictionary[(read + i) % 4096]);
+			}
+		}
+	}
+	return output.subarray(0, length);
+}
+
+/**
+ * State of a group
+ */
+interface RtfGroup {
+	// destination that is no content
+	ignored: boolean;
+	// \htmltag destination, content of the encapsulated html
+	htmlTag: boolean;
+	// \htmlrtf, content of the RTF only
+	htmlRtf: boolean;
+	// \ucN, number of characters after \uN that represent it
+	unicodeSkip: number;
+}
+
+/**
+ * Gets the html or text of an RTF document that encapsulates it (MS-OXRTFEX), i.e. of one with \fromhtml1 or \fromtext
+ *
+ * @param {String|Uint8Array} rtf The RTF document, as binary string or bytes
+ * @return {RtfBody|undefined} undefined if the document does not encapsulate html or text
+ */
+export function deEncapsulateRtf(rtf: string | Uint8Array): RtfBody | undefined {
+	const source = typeof rtf === 'string' ? rtf : arr2str(rtf);
+	//The tag is expected in the header, before the first content
+	const header = source.substring(0, 1024);
+	const type = /\\fromhtml1(?![a-z])/.test(header) ? 'html' : /\\fromtext(?![a-z])/.test(header) ? 'text' : undefined;
+	if (!type) {
+		return undefined;
+	}
+	const ansicpg = /\\ansicpg(\d+)/.exec(header);
+	const charset = ansicpg ? getCodepageCharset(parseInt(ansicpg[1], 10)) : 'windows-1252';
+
+	let content = '';
+	//Bytes of \'hh are decoded together, they may be characters of several bytes
+	let bytes = [] as number[];
+	const flush = () => {
+		if (bytes.length) {
+			content += decode(new Uint8Array(bytes), charset);
+			bytes = [];
+		}
+	};
+	const stack = [] as RtfGroup[];
+	let group: RtfGroup = { ignored: false, htmlTag: false, htmlRtf: false, unicodeSkip: 1 };
+	//Characters to skip after \uN
+	let skip = 0;
+	//\* before the control word of a destination
+	let optional = false;
+	let firstInGroup = false;
+	const visible = () => !group.ignored && (group.htmlTag || !group.htmlRtf);
+	const emit = (text: string) => {
+		if (skip > 0) {
+			skip--;
+		} else if (visible()) {
+			flush();
+			content += text;
+		}
+	};
+
+	let i = 0;
+	while (i < source.length) {
+		const char = source.charAt(i);
+		if (char === '{') {
+			stack.push(group);
+			group = { ignored: group.ignored, htmlTag: group.htmlTag, htmlRtf: group.htmlRtf, unicodeSkip: group.unicodeSkip };
+			firstInGroup = true;
+			optional = false;
+			skip = 0;
+			i++;
+			continue;
+		}
+		if (char === '}') {
+			group = stack.pop() || group;
+			firstInGroup = false;
+			skip = 0;
+			i++;
+			continue;
+		}
+		if (char === '\r' || char === '\n') {
+			i++;
+			continue;
+		}
+		if (char !== '\\') {
+			emit(char);
+			firstInGroup = false;
+			i++;
+			continue;
+		}
+
+		//Control word: letters, an optional number and an optional space as delimiter
+		const match = /^\\([a-zA-Z]{1,32})(-?\d+)? ?/.exec(source.substring(i, i + 48));
+		if (!match) {
+			const symbol = source.charAt(i + 1);
+			if (symbol === "'") {
+				const code = parseInt(source.substring(i + 2, i + 4), 16);
+				if (skip > 0) {
+					skip--;
+				} else if (visible() && !isNaN(code)) {
+					bytes.push(code);
+				}
+				i += 4;
+			} else if (symbol === '*') {
+				//Still the start of the group
+				optional = true;
+				i += 2;
+				continue;
+			} else if (symbol === '\r' || symbol === '\n') {
+				emit('\r\n');
+				i += 2;
+			} else {
+				//Escaped '\', '{' and '}', non-breaking space and hyphen, soft hyphens are left out
+				const symbols: { [symbol: string]: string } = { '\\': '\\', '{': '{', '}': '}', '~': ' ', _: '\u2011', '-': '' };
+				emit(symbols.hasOwnProperty(symbol) ? symbols[symbol] : '');
+				i += 2;
+			}
+			firstInGroup = false;
+			continue;
+		}
+		i += match[0].length;
+		const word = match[1];
+		const parameter = typeof match[2] === 'string' ? parseInt(match[2], 10) : undefined;
+		const destination = firstInGroup;
+		firstInGroup = false;
+		if (destination && word === 'htmltag') {
+			group.htmlTag = true;
+			optional = false;
+			continue;
+		}
+		if (destination && (optional || IGNORED_DESTINATIONS.test(word))) {
+			//Unknown optional destinations are skipped, like \mhtmltag of the original html
+			group.ignored = true;
+			optional = false;
+			continue;
+		}
+		optional = false;
+		if (word === 'htmlrtf') {
+			group.htmlRtf = parameter !== 0;
+		} else if (word === 'uc') {
+			group.unicodeSkip = parameter || 0;
+		} else if (word === 'u' && typeof parameter === 'number') {
+			emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+			skip = group.unicodeSkip;
+		} else if (word === 'par' || word === 'line') {
+			emit('\r\n');
+		} else if (word === 'tab') {
+			emit('\t');
+		} else if (word === 'bin' && parameter) {
+			//Binary data, e.g. of pictures
+			i += parameter;
+		}
+	}
+	flush();
+	return { type, content };
+}
+
+/**
+ * Sets `html` or `text` of a message from its compressed RTF body if it encapsulates one and the message has none,
+ * of embedded messages as well
+ *
+ * @param {ReadedEmlJson} message
+ */
+export function setRtfBody(message: ReadedEmlJson) {
+	(message.attachments || []).forEach((attachment) => attachment.message && setRtfBody(attachment.message));
+	if (!message.rtf) {
+		return;
+	}
+	let body: RtfBody | undefined;
+	try {
+		body = deEncapsulateRtf(decompressRtf(message.rtf));
+	} catch (e) {
+		body = undefined;
+	}
+	if (body && typeof message[body.type] === 'undefined') {
+		message[body.type] = body.content;
+	}
+}
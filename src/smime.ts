@@ -0,0 +1,574 @@
+import { asn1Oid, asn1String, asn1Time, readAsn1, toHex, type Asn1Node } from './asn1';
+import { EmlParseError, InvalidInputError } from './errors';
+import type { SmimeCertificate, SmimeSigner, SmimeVerification } from './interface';
+
+//Object identifiers
+const SIGNED_DATA = '1.2.840.113549.1.7.2';
+const MESSAGE_DIGEST = '1.2.840.113549.1.9.4';
+const SIGNING_TIME = '1.2.840.113549.1.9.5';
+const EMAIL_ADDRESS = '1.2.840.113549.1.9.1';
+const SUBJECT_ALT_NAME = '2.5.29.17';
+const SUBJECT_KEY_IDENTIFIER = '2.5.29.14';
+const AUTHORITY_KEY_IDENTIFIER = '2.5.29.35';
+const RSA_PSS = '1.2.840.113549.1.1.10';
+
+const DIGESTS: { [oid: string]: string } = {
+	'1.3.14.3.2.26': 'SHA-1',
+	'2.16.840.1.101.3.4.2.1': 'SHA-256',
+	'2.16.840.1.101.3.4.2.2': 'SHA-384',
+	'2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+//Signature algorithms and their digest, none if it is taken from the signer info
+const SIGNATURES: { [oid: string]: { name: string; hash?: string } } = {
+	'1.2.840.113549.1.1.1': { name: 'RSASSA-PKCS1-v1_5' },
+	'1.2.840.113549.1.1.5': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-1' },
+	'1.2.840.113549.1.1.11': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+	'1.2.840.113549.1.1.12': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+	'1.2.840.113549.1.1.13': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+	'1.2.840.113549.1.1.10': { name: 'RSA-PSS' },
+	'1.2.840.10045.2.1': { name: 'ECDSA' },
+	'1.2.840.10045.4.1': { name: 'ECDSA', hash: 'SHA-1' },
+	'1.2.840.10045.4.3.2': { name: 'ECDSA', hash: 'SHA-256' },
+	'1.2.840.10045.4.3.3': { name: 'ECDSA', hash: 'SHA-384' },
+	'1.2.840.10045.4.3.4': { name: 'ECDSA', hash: 'SHA-512' },
+	'1.3.101.112': { name: 'Ed25519' },
+};
+
+const PUBLIC_KEYS: { [oid: string]: string } = {
+	'1.2.840.113549.1.1.1': 'RSA',
+	'1.2.840.113549.1.1.10': 'RSA-PSS',
+	'1.2.840.10045.2.1': 'EC',
+	'1.3.101.112': 'Ed25519',
+};
+
+//Named curves and the size of their coordinates
+const CURVES: { [oid: string]: { name: string; size: number } } = {
+	'1.2.840.10045.3.1.7': { name: 'P-256', size: 32 },
+	'1.3.132.0.34': { name: 'P-384', size: 48 },
+	'1.3.132.0.35': { name: 'P-521', size: 66 },
+};
+
+//Attribute types of names (RFC 4514)
+const NAME_ATTRIBUTES: { [oid: string]: string } = {
+	'2.5.4.3': 'CN',
+	'2.5.4.4': 'SN',
+	'2.5.4.5': 'serialNumber',
+	'2.5.4.6': 'C',
+	'2.5.4.7': 'L',
+	'2.5.4.8': 'ST',
+	'2.5.4.9': 'STREET',
+	'2.5.4.10': 'O',
+	'2.5.4.11': 'OU',
+	'2.5.4.12': 'title',
+	'2.5.4.42': 'GN',
+	'0.9.2342.19200300.100.1.1': 'UID',
+	'0.9.2342.19200300.100.1.25': 'DC',
+	'1.2.840.113549.1.9.1': 'emailAddress',
+};
+
+/**
+ * Parsed certificate with the parts to verify signatures
+ */
+interface Certificate {
+	info: SmimeCertificate;
+	tbs: Uint8Array;
+	signatureAlgorithm: Asn1Node;
+	signature: Uint8Array;
+	publicKey: Asn1Node;
+	issuerName: Uint8Array;
+	subjectName: Uint8Array;
+	keyId?: string;
+	authorityKeyId?: string;
+}
+
+/**
+ * Parsed signer info
+ */
+interface Signer {
+	info: SmimeSigner;
+	issuerName?: Uint8Array;
+	serialNumber?: string;
+	keyId?: string;
+	digestOid: string;
+	signatureAlgorithm: Asn1Node;
+	signature: Uint8Array;
+	// signed attributes encoded as SET OF, which is what is signed
+	signedAttributes?: Uint8Array;
+	messageDigest?: Uint8Array;
+}
+
+/**
+ * SignedData of CMS (RFC 5652)
+ */
+interface SignedData {
+	contentType: string;
+	// encapsulated content, missing for detached signatures
+	content?: Uint8Array;
+	certificates: Certificate[];
+	signers: Signer[];
+}
+
+/**
+ * @param {Uint8Array} a
+ * @param {Uint8Array} b
+ * @return {Boolean}
+ */
+function _equal(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	for (let i = 0; i < a.length; i++) {
+		if (a[i] !== b[i]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Copies bytes for WebCrypto, parsed values are views of the whole signed data
+ *
+ * @param {Uint8Array} bytes
+ * @return {Uint8Array} Bytes of their own buffer
+ */
+function _copy(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+	return new Uint8Array(bytes);
+}
+
+/**
+ * @param {Asn1Node} node BIT STRING
+ * @return {Uint8Array} The bits without the number of unused bits
+ */
+function _bits(node?: Asn1Node): Uint8Array {
+	return node && node.content.length ? node.content.subarray(1) : new Uint8Array(0);
+}
+
+/**
+ * Formats a distinguished name, the most specific attribute first (RFC 4514)
+ *
+ * @param {Asn1Node} name Name, a SEQUENCE of RDNs
+ * @return {String} e.g. 'CN=Alice,O=Example,C=DE'
+ */
+function _name(name: Asn1Node): string {
+	return name.children
+		.map((rdn) =>
+			rdn.children
+				.map((attribute) => {
+					const oid = asn1Oid(attribute.children[0]);
+					const value = asn1String(attribute.children[1]).replace(/([,+"\\<>;=])/g, '\\$1');
+					return (NAME_ATTRIBUTES[oid] || oid) + '=' + value;
+				})
+				.join('+')
+		)
+		.reverse()
+		.join(',');
+}
+
+/**
+ * Parses an X.509 certificate (RFC 5280)
+ *
+ * @param {Asn1Node} node Certificate
+ * @return {Certificate}
+ */
+function _certificate(node: Asn1Node): Certificate {
+	const [tbsNode, signatureAlgorithm, signatureValue] = node.children;
+	if (!tbsNode || !signatureAlgorithm || !signatureValue) {
+		throw new InvalidInputError('Invalid certificate!');
+	}
+	//The version is optional
+	const fields = tbsNode.children[0] && tbsNode.children[0].tag === 0xa0 ? tbsNode.children.slice(1) : tbsNode.children;
+	const [serialNumber, , issuer, validity, subject, publicKey] = fields;
+	if (!serialNumber || !issuer || !validity || !subject || !publicKey) {
+		throw new InvalidInputError('Invalid certificate!');
+	}
+	const subjectName = _name(subject);
+	const emails = [] as string[];
+	subject.children.forEach((rdn) =>
+		rdn.children.forEach((attribute) => {
+			if (asn1Oid(attribute.children[0]) === EMAIL_ADDRESS) {
+				emails.push(asn1String(attribute.children[1]));
+			}
+		})
+	);
+	const commonName = /(?:^|,)CN=((?:[^,\\]|\\.)*)/.exec(subjectName);
+
+	const certificate: Certificate = {
+		info: {
+			subject: subjectName,
+			issuer: _name(issuer),
+			serialNumber: toHex(serialNumber.content),
+			notBefore: asn1Time(validity.children[0]) as Date,
+			notAfter: asn1Time(validity.children[1]) as Date,
+			emails,
+			publicKeyAlgorithm: '',
+			selfSigned: _equal(issuer.raw, subject.raw),
+			der: node.raw,
+		},
+		tbs: tbsNode.raw,
+		signatureAlgorithm,
+		signature: _bits(signatureValue),
+		publicKey,
+		issuerName: issuer.raw,
+		subjectName: subject.raw,
+	};
+	if (commonName) {
+		certificate.info.commonName = commonName[1].replace(/\\(.)/g, '$1');
+	}
+	const keyOid = asn1Oid(publicKey.children[0] && publicKey.children[0].children[0]);
+	certificate.info.publicKeyAlgorithm = PUBLIC_KEYS[keyOid] || keyOid;
+
+	//Extensions
+	const extensions = fields.find((field) => field.tag === 0xa3);
+	const list = extensions && extensions.children[0] ? extensions.children[0].children : [];
+	list.forEach((extension) => {
+		const oid = asn1Oid(extension.children[0]);
+		const value = extension.children[extension.children.length - 1];
+		if (!value || value.tag !== 0x04) {
+			return;
+		}
+		try {
+			const content = readAsn1(value.content);
+			if (oid === SUBJECT_ALT_NAME) {
+				//rfc822Name
+				content.children
+					.filter((name) => name.tag === 0x81)
+					.forEach((name) => {
+						const email = asn1String(name);
+						if (emails.map((known) => known.toLowerCase()).indexOf(email.toLowerCase()) < 0) {
+							emails.push(email);
+						}
+					});
+			} else if (oid === SUBJECT_KEY_IDENTIFIER) {
+				certificate.keyId = toHex(content.content);
+			} else if (oid === AUTHORITY_KEY_IDENTIFIER) {
+				const keyId = content.children.find((child) => child.tag === 0x80);
+				if (keyId) {
+					certificate.authorityKeyId = toHex(keyId.content);
+				}
+			}
+		} catch (e) {
+			//Unreadable extensions are left out
+		}
+	});
+	return certificate;
+}
+
+/**
+ * Parses a signer info
+ *
+ * @param {Asn1Node} node SignerInfo
+ * @param {Certificate[]} certificates Certificates of the signed data
+ * @return {Signer}
+ */
+function _signer(node: Asn1Node, certificates: Certificate[]): Signer {
+	const [, sid, digestAlgorithm] = node.children;
+	let index = 3;
+	const attributes = node.children[index] && node.children[index].tag === 0xa0 ? node.children[index++] : undefined;
+	const signatureAlgorithm = node.children[index++];
+	const signature = node.children[index];
+	if (!sid || !digestAlgorithm || !signatureAlgorithm || !signature) {
+		throw new InvalidInputError('Invalid signer info!');
+	}
+	const digestOid = asn1Oid(digestAlgorithm.children[0]);
+	const signatureOid = asn1Oid(signatureAlgorithm.children[0]);
+	const signer: Signer = {
+		info: {
+			digestAlgorithm: DIGESTS[digestOid] || digestOid,
+			signatureAlgorithm: SIGNATURES[signatureOid] ? SIGNATURES[signatureOid].name : signatureOid,
+		},
+		digestOid,
+		signatureAlgorithm,
+		signature: signature.content,
+	};
+	if (sid.tag === 0x80) {
+		signer.keyId = toHex(sid.content);
+	} else if (sid.children.length >= 2) {
+		signer.issuerName = sid.children[0].raw;
+		signer.serialNumber = toHex(sid.children[1].content);
+	}
+	if (attributes) {
+		//The signature is over the DER encoding with the tag of SET OF (RFC 5652 section 5.4)
+		signer.signedAttributes = attributes.raw.slice();
+		signer.signedAttributes[0] = 0x31;
+		attributes.children.forEach((attribute) => {
+			const type = asn1Oid(attribute.children[0]);
+			const value = attribute.children[1] && attribute.children[1].children[0];
+			if (type === MESSAGE_DIGEST && value) {
+				signer.messageDigest = value.content;
+			} else if (type === SIGNING_TIME) {
+				const signingTime = asn1Time(value);
+				if (signingTime) {
+					signer.info.signingTime = signingTime;
+				}
+			}
+		});
+	}
+	const certificate = certificates.find((candidate) =>
+		signer.keyId
+			? candidate.keyId === signer.keyId
+			: candidate.info.serialNumber === signer.serialNumber && !!signer.issuerName && _equal(candidate.issuerName, signer.issuerName)
+	);
+	if (certificate) {
+		signer.info.certificate = certificate.info;
+	}
+	return signer;
+}
+
+/**
+ * Parses CMS signed data, e.g. of smime.p7s or smime.p7m (RFC 5652, RFC 8551)
+ *
+ * @param {Uint8Array} der ContentInfo in DER, or BER for the content
+ * @return {SignedData} throws an InvalidInputError if it is no signed data
+ */
+function _signedData(der: Uint8Array): SignedData {
+	const contentInfo = readAsn1(der);
+	if (asn1Oid(contentInfo.children[0]) !== SIGNED_DATA || !contentInfo.children[1] || !contentInfo.children[1].children[0]) {
+		throw new InvalidInputError('No CMS signed data!');
+	}
+	const fields = contentInfo.children[1].children[0].children;
+	const encapsulated = fields[2];
+	if (!encapsulated) {
+		throw new InvalidInputError('Invalid CMS signed data!');
+	}
+	const certificates = [] as Certificate[];
+	const certificateSet = fields.find((field, index) => index > 2 && field.tag === 0xa0);
+	if (certificateSet) {
+		//Other certificate formats are left out
+		certificateSet.children.filter((child) => child.tag === 0x30).forEach((child) => certificates.push(_certificate(child)));
+	}
+	const signerInfos = fields[fields.length - 1];
+	const signedData: SignedData = {
+		contentType: asn1Oid(encapsulated.children[0]),
+		certificates,
+		signers: signerInfos && signerInfos.tag === 0x31 ? signerInfos.children.map((signer) => _signer(signer, certificates)) : [],
+	};
+	const content = encapsulated.children[1] && encapsulated.children[1].children[0];
+	if (content) {
+		signedData.content = content.content;
+	}
+	return signedData;
+}
+
+/**
+ * Reads CMS signed data of S/MIME, i.e. the signers with their certificate, all certificates and the content of opaque
+ * signed messages
+ *
+ * @param {Uint8Array} der Content of an application/pkcs7-signature or application/pkcs7-mime part
+ * @return {Object} throws an InvalidInputError if it is no signed data
+ */
+export function readSignedData(der: Uint8Array): { signers: SmimeSigner[]; certificates: SmimeCertificate[]; content?: Uint8Array } {
+	const signedData = _signedData(der);
+	const result: { signers: SmimeSigner[]; certificates: SmimeCertificate[]; content?: Uint8Array } = {
+		signers: signedData.signers.map((signer) => signer.info),
+		certificates: signedData.certificates.map((certificate) => certificate.info),
+	};
+	if (signedData.content) {
+		result.content = signedData.content;
+	}
+	return result;
+}
+
+/**
+ * Converts an ECDSA signature from DER to the concatenated coordinates WebCrypto expects
+ *
+ * @param {Uint8Array} signature Ecdsa-Sig-Value
+ * @param {Number} size Size of a coordinate
+ * @return {Uint8Array}
+ */
+function _ecdsaSignature(signature: Uint8Array, size: number): Uint8Array {
+	const sequence = readAsn1(signature);
+	const raw = new Uint8Array(size * 2);
+	sequence.children.slice(0, 2).forEach((integer, index) => {
+		let value = integer.content;
+		while (value.length > size && value[0] === 0) {
+			value = value.subarray(1);
+		}
+		raw.set(value, size * (index + 1) - value.length);
+	});
+	return raw;
+}
+
+/**
+ * Verifies a signature with the public key of a certificate
+ *
+ * @param {SubtleCrypto} subtle
+ * @param {Asn1Node} publicKey SubjectPublicKeyInfo
+ * @param {Asn1Node} algorithm AlgorithmIdentifier of the signature
+ * @param {String} digestOid Digest if the signature algorithm has none
+ * @param {Uint8Array} signature
+ * @param {Uint8Array} data Signed data
+ * @return {Promise<Boolean>} rejects if the algorithm is not supported
+ */
+function _verifySignature(
+	subtle: SubtleCrypto,
+	publicKey: Asn1Node,
+	algorithm: Asn1Node,
+	digestOid: string,
+	signature: Uint8Array,
+	data: Uint8Array
+): Promise<boolean> {
+	const oid = asn1Oid(algorithm.children[0]);
+	const known = SIGNATURES[oid];
+	let hash = (known && known.hash) || DIGESTS[digestOid];
+	if (!known || !hash) {
+		return Promise.reject(new EmlParseError('Unsupported signature algorithm ' + (oid || digestOid) + '!'));
+	}
+	const spki = _copy(publicKey.raw);
+	const signed = _copy(data);
+	if (known.name === 'Ed25519') {
+		return subtle
+			.importKey('spki', spki, { name: 'Ed25519' }, false, ['verify'])
+			.then((key) => subtle.verify({ name: 'Ed25519' }, key, _copy(signature), signed));
+	}
+	if (known.name === 'ECDSA') {
+		const curve = CURVES[asn1Oid(publicKey.children[0] && publicKey.children[0].children[1])];
+		if (!curve) {
+			return Promise.reject(new EmlParseError('Unsupported curve!'));
+		}
+		return subtle
+			.importKey('spki', spki, { name: 'ECDSA', namedCurve: curve.name }, false, ['verify'])
+			.then((key) => subtle.verify({ name: 'ECDSA', hash }, key, _copy(_ecdsaSignature(signature, curve.size)), signed));
+	}
+	if (oid === RSA_PSS) {
+		//RSASSA-PSS-params, SHA-1 and 20 bytes of salt by default (RFC 4055)
+		let saltLength = 20;
+		hash = 'SHA-1';
+		(algorithm.children[1] ? algorithm.children[1].children : []).forEach((parameter) => {
+			if (parameter.tag === 0xa0 && parameter.children[0]) {
+				hash = DIGESTS[asn1Oid(parameter.children[0].children[0])] || hash;
+			} else if (parameter.tag === 0xa2 && parameter.children[0]) {
+				saltLength = parseInt(toHex(parameter.children[0].content) || '0', 16);
+			}
+		});
+		return subtle
+			.importKey('spki', spki, { name: 'RSA-PSS', hash }, false, ['verify'])
+			.then((key) => subtle.verify({ name: 'RSA-PSS', saltLength }, key, _copy(signature), signed));
+	}
+	return subtle
+		.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify'])
+		.then((key) => subtle.verify('RSASSA-PKCS1-v1_5', key, _copy(signature), signed));
+}
+
+/**
+ * Gets the certificate chain of a certificate from the embedded certificates
+ *
+ * @param {Certificate} certificate
+ * @param {Certificate[]} certificates
+ * @return {Certificate[]} The certificate first
+ */
+function _chain(certificate: Certificate, certificates: Certificate[]): Certificate[] {
+	const chain = [certificate];
+	let current = certificate;
+	while (!current.info.selfSigned) {
+		const subject = current;
+		const issuer = certificates.find(
+			(candidate) =>
+				chain.indexOf(candidate) < 0 &&
+				_equal(candidate.subjectName, subject.issuerName) &&
+				(!subject.authorityKeyId || !candidate.keyId || candidate.keyId === subject.authorityKeyId)
+		);
+		if (!issuer) {
+			break;
+		}
+		chain.push(issuer);
+		current = issuer;
+	}
+	return chain;
+}
+
+/**
+ * Verifies the signatures of CMS signed data, and the signatures of the certificate chains of the signers as far as
+ * the certificates are embedded. A chain is verified only if it ends in a self-signed certificate. There is no trust
+ * decision, i.e. it is up to the caller to trust the last certificate of a chain.
+ *
+ * @param {Uint8Array} der ContentInfo, e.g. of smime.p7s
+ * @param {Uint8Array} content Signed content of detached signatures, i.e. the canonical first part of multipart/signed
+ * @return {Promise<SmimeVerification[]>} One result per signer, rejects with an EmlParseError if WebCrypto is not available
+ */
+export function verifySignedData(der: Uint8Array, content?: Uint8Array): Promise<SmimeVerification[]> {
+	const subtle = typeof crypto !== 'undefined' && crypto ? crypto.subtle : undefined;
+	if (!subtle) {
+		return Promise.reject(new EmlParseError('WebCrypto is not available!'));
+	}
+	let signedData: SignedData;
+	try {
+		signedData = _signedData(der);
+	} catch (e) {
+		return Promise.reject(e);
+	}
+	const data = content || signedData.content;
+	if (!data) {
+		return Promise.reject(new InvalidInputError('Signed content expected for a detached signature!'));
+	}
+
+	return Promise.all(
+		signedData.signers.map((signer) => {
+			const result = (
+				status: SmimeVerification['status'],
+				chain: Certificate[],
+				chainVerified: boolean,
+				reason?: string,
+				digestMatches?: boolean
+			) => {
+				const verification: SmimeVerification = {
+					signer: signer.info,
+					status,
+					chain: chain.map((certificate) => certificate.info),
+					chainVerified,
+				};
+				if (reason) {
+					verification.reason = reason;
+				}
+				if (typeof digestMatches === 'boolean') {
+					verification.digestMatches = digestMatches;
+				}
+				return verification;
+			};
+			const certificate = signedData.certificates.find((candidate) => candidate.info === signer.info.certificate);
+			const digest = DIGESTS[signer.digestOid];
+			if (!certificate) {
+				return Promise.resolve(result('permerror', [], false, 'signer certificate not found'));
+			}
+			const chain = _chain(certificate, signedData.certificates);
+			if (!digest) {
+				return Promise.resolve(result('permerror', chain, false, 'unsupported digest algorithm ' + signer.digestOid));
+			}
+
+			//Each certificate is signed by the next one, the last one by itself, a chain without a self-signed end is not verified
+			const chainVerified = Promise.all(
+				chain.map((link, index) => {
+					const issuer = chain[index + 1] || (link.info.selfSigned ? link : undefined);
+					return issuer ? _verifySignature(subtle, issuer.publicKey, link.signatureAlgorithm, '', link.signature, link.tbs) : false;
+				})
+			).then(
+				(results) => results.every((valid) => valid),
+				() => false
+			);
+
+			let digestMatches: boolean | undefined;
+			const verified = subtle.digest(digest, _copy(data)).then((hash) => {
+				let signed = data;
+				if (signer.signedAttributes) {
+					digestMatches = !!signer.messageDigest && _equal(new Uint8Array(hash), signer.messageDigest);
+					signed = signer.signedAttributes;
+				}
+				return _verifySignature(subtle, certificate.publicKey, signer.signatureAlgorithm, signer.digestOid, signer.signature, signed);
+			});
+			return Promise.all([verified, chainVerified]).then(
+				([valid, chainValid]) => {
+					if (digestMatches === false) {
+						return result('fail', chain, chainValid, 'message digest did not match', false);
+					}
+					return valid
+						? result('pass', chain, chainValid, undefined, digestMatches)
+						: result('fail', chain, chainValid, 'signature did not verify', digestMatches);
+				},
+				(e) =>
+					chainVerified.then((chainValid) =>
+						result('permerror', chain, chainValid, 'invalid key or signature: ' + (e && e.message ? e.message : e), digestMatches)
+					)
+			);
+		})
+	);
+}
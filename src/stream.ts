@@ -0,0 +1,374 @@
+import { Base64 } from 'js-base64';
+import { arr2str, decode, encode, str2arr } from './charset';
+import { EmlParseError, MalformedHeaderError, MissingBoundaryError, toEmlParseError } from './errors';
+import { HeaderCollection } from './headers';
+import type { EmlStreamEvent, EmlStreamPart, HeaderLine, OptionOrNull } from './interface';
+import { parseHeaderValue } from './paramparser';
+import { getBoundary, getDelimiter } from './utils';
+
+/**
+ * Entity being parsed, multiparts stay open until their close delimiter
+ */
+interface StreamEntity {
+	part: EmlStreamPart;
+	inHeaders: boolean;
+	// empty lines after headers without Content-Type, which may still follow (see `parseEml`), undefined once known
+	emptyLines?: number;
+	probed: boolean;
+	// boundary of a multipart
+	boundary?: string;
+	// number of parts of a multipart so far
+	count: number;
+	// decoded bytes of a leaf so far
+	size: number;
+	// decoded binary string not emitted yet
+	pending: string[];
+	// base64 characters not decoded yet, less than a group of 4 after each chunk
+	base64: string;
+	// a line break before the next body line, the one before a boundary belongs to the boundary (RFC 2046 section 5.1.1)
+	lineBreak: boolean;
+}
+
+/**
+ * Parses a message as it arrives in chunks without holding it in memory, e.g. a large mailbox export in a Web Worker.
+ * Events are passed to the handler as soon as the lines they come from are complete, see `EmlStreamEvent`.
+ */
+export class EmlStreamParser {
+	private _handler: (event: EmlStreamEvent) => void;
+	private _strict: boolean;
+	private _headersOnly: boolean;
+	//Open entities, the message first
+	private _stack: StreamEntity[] = [];
+	//Bytes after the last line break
+	private _rest: Uint8Array = new Uint8Array(0);
+	//Header line that may still be folded
+	private _header?: HeaderLine;
+	private _ended = false;
+	private _skip = false;
+
+	/**
+	 * @param {Function} handler Called with each event
+	 * @param {Options} options `strict` throws on malformed header lines and multiparts without boundary, `headersOnly`
+	 * stops after the headers of the message
+	 */
+	constructor(handler: (event: EmlStreamEvent) => void, options?: OptionOrNull) {
+		this._handler = handler;
+		this._strict = !!(options && options.strict);
+		this._headersOnly = !!(options && options.headersOnly);
+		this._stack.push(this._entity('', 'text/plain'));
+	}
+
+	/**
+	 * Parses the next chunk of the message
+	 * @param {Uint8Array|String} chunk Bytes, a string is encoded as UTF-8
+	 */
+	write(chunk: Uint8Array | string) {
+		if (this._ended) {
+			throw new EmlParseError('Write after end!');
+		}
+		const bytes = typeof chunk === 'string' ? encode(chunk) : chunk;
+		let data = bytes;
+		if (this._rest.length) {
+			data = new Uint8Array(this._rest.length + bytes.length);
+			data.set(this._rest);
+			data.set(bytes, this._rest.length);
+		}
+		let start = 0;
+		let lf: number;
+		while ((lf = data.indexOf(10, start)) >= 0) {
+			const end = lf > start && data[lf - 1] === 13 ? lf - 1 : lf;
+			this._line(arr2str(data.subarray(start, end)));
+			start = lf + 1;
+		}
+		this._rest = data.slice(start);
+		this._flush();
+	}
+
+	/**
+	 * Parses the rest of the message and ends all open parts
+	 */
+	end() {
+		if (this._ended) {
+			return;
+		}
+		//The last line, which is empty after a trailing line break
+		const rest = this._rest;
+		this._rest = new Uint8Array(0);
+		this._line(arr2str(rest.length && rest[rest.length - 1] === 13 ? rest.subarray(0, rest.length - 1) : rest));
+		this._flush();
+		while (this._stack.length) {
+			this._end();
+		}
+		this._ended = true;
+	}
+
+	/**
+	 * @param {String} path
+	 * @param {String} defaultType Content type if there is no Content-Type header
+	 * @return {StreamEntity}
+	 */
+	private _entity(path: string, defaultType: string): StreamEntity {
+		return {
+			part: { path, contentType: defaultType, params: {}, dispositionParams: {}, headers: new HeaderCollection() },
+			inHeaders: true,
+			probed: false,
+			count: 0,
+			size: 0,
+			pending: [],
+			base64: '',
+			lineBreak: false,
+		};
+	}
+
+	/**
+	 * @param {String} line Binary string without the line break
+	 */
+	private _line(line: string) {
+		const entity = this._stack[this._stack.length - 1];
+		if (!entity || this._skip) {
+			return;
+		}
+		//Delimiters of the open multiparts, the innermost first, also within headers as parts may have none or no body
+		if (line.charAt(0) === '-' && line.charAt(1) === '-') {
+			for (let depth = this._stack.length - 1; depth >= 0; depth--) {
+				const boundary = this._stack[depth].boundary;
+				const delimiter = getDelimiter(line, boundary as string);
+				if (delimiter) {
+					this._delimiter(depth, delimiter === 'close');
+					return;
+				}
+			}
+		}
+		if (entity.inHeaders) {
+			this._headerLine(entity, line);
+			return;
+		}
+		//Preamble and epilogue of multiparts are ignored
+		if (!entity.boundary) {
+			this._bodyLine(entity, line);
+		}
+	}
+
+	/**
+	 * @param {StreamEntity} entity
+	 * @param {String} binary Binary string
+	 */
+	private _headerLine(entity: StreamEntity, binary: string) {
+		//8-bit header values are expected to be UTF-8 (RFC 6532)
+		const line = decode(str2arr(binary));
+		if (typeof entity.emptyLines === 'number') {
+			if (!line.trim()) {
+				entity.emptyLines++;
+				return;
+			}
+			const emptyLines = entity.emptyLines;
+			entity.emptyLines = undefined;
+			if (!/^content-type/i.test(line)) {
+				//The body after all, starting with the empty lines
+				this._start(entity);
+				for (let i = 0; i < emptyLines; i++) {
+					this._line('');
+				}
+				this._line(binary);
+				return;
+			}
+		}
+		if (line === '') {
+			this._flushHeader(entity);
+			if (!entity.probed && !entity.part.headers.has('Content-Type')) {
+				entity.probed = true;
+				entity.emptyLines = 0;
+				return;
+			}
+			this._start(entity);
+			return;
+		}
+		let match = /^\s+([^\r\n]+)/.exec(line);
+		if (match) {
+			if (this._header) {
+				this._header.value += '\r\n' + match[1];
+				this._header.raw += '\r\n' + line;
+			}
+			return;
+		}
+		match = /^([\w\d\-]+):\s*([^\r\n]*)/.exec(line);
+		if (match) {
+			this._flushHeader(entity);
+			this._header = { name: match[1], value: match[2], raw: line };
+			return;
+		}
+		if (this._strict && line.trim()) {
+			throw new MalformedHeaderError('Malformed header line!', line);
+		}
+	}
+
+	/**
+	 * Adds the header line once it cannot be folded anymore
+	 * @param {StreamEntity} entity
+	 */
+	private _flushHeader(entity: StreamEntity) {
+		const header = this._header;
+		if (header) {
+			this._header = undefined;
+			entity.part.headers.add(header.name, header.value, header.raw);
+			this._handler({ type: 'header', path: entity.part.path, header });
+		}
+	}
+
+	/**
+	 * Starts the body of an entity after its headers
+	 * @param {StreamEntity} entity
+	 */
+	private _start(entity: StreamEntity) {
+		const part = entity.part;
+		const headers = part.headers;
+		entity.inHeaders = false;
+		const contentType = headers.get('Content-Type');
+		if (contentType) {
+			const parsed = parseHeaderValue(contentType);
+			part.contentType = parsed.value.toLowerCase() || part.contentType;
+			part.params = parsed.params;
+		}
+		const disposition = headers.get('Content-Disposition');
+		if (disposition) {
+			const parsed = parseHeaderValue(disposition);
+			part.disposition = parsed.value.toLowerCase();
+			part.dispositionParams = parsed.params;
+		}
+		const encoding = headers.get('Content-Transfer-Encoding');
+		if (encoding) {
+			part.encoding = encoding.toLowerCase().trim();
+		}
+		if (/^multipart\//.test(part.contentType)) {
+			const boundary = getBoundary(contentType as string);
+			if (boundary) {
+				entity.boundary = boundary;
+			} else if (this._strict) {
+				throw new MissingBoundaryError('Multipart without boundary!', contentType as string);
+			}
+		}
+		this._handler({ type: 'part-start', part });
+		if (this._headersOnly) {
+			this._skip = true;
+		}
+	}
+
+	/**
+	 * Starts the next part of a multipart or ends it
+	 * @param {Number} depth Index of the multipart in the stack
+	 * @param {Boolean} close Close delimiter
+	 */
+	private _delimiter(depth: number, close: boolean) {
+		while (this._stack.length - 1 > depth) {
+			this._end();
+		}
+		if (close) {
+			this._end();
+			return;
+		}
+		const multipart = this._stack[depth];
+		const path = (multipart.part.path ? multipart.part.path + '.' : '') + ++multipart.count;
+		this._stack.push(this._entity(path, multipart.part.contentType === 'multipart/digest' ? 'message/rfc822' : 'text/plain'));
+	}
+
+	/**
+	 * Decodes a line of the body of a leaf
+	 * @param {StreamEntity} entity
+	 * @param {String} line Binary string
+	 */
+	private _bodyLine(entity: StreamEntity, line: string) {
+		const encoding = entity.part.encoding;
+		if (encoding === 'base64') {
+			entity.base64 += line.replace(/[^A-Za-z0-9+/=\-_]/g, '');
+			return;
+		}
+		const lineBreak = entity.lineBreak ? '\r\n' : '';
+		if (encoding === 'quoted-printable') {
+			let text = line.replace(/[ \t]+$/, '');
+			//Soft line break
+			entity.lineBreak = !/=$/.test(text);
+			if (!entity.lineBreak) {
+				text = text.substring(0, text.length - 1);
+			}
+			entity.pending.push(lineBreak + text.replace(/=([0-9A-Fa-f]{2})/g, (match, hex) => String.fromCharCode(parseInt(hex, 16))));
+			return;
+		}
+		entity.lineBreak = true;
+		entity.pending.push(lineBreak + line);
+	}
+
+	/**
+	 * Emits the decoded body of the current leaf, base64 in whole groups of 4 characters
+	 * @param {Boolean} last Decodes the remaining base64 characters as well
+	 */
+	private _flush(last = false) {
+		const entity = this._stack[this._stack.length - 1];
+		if (!entity || entity.inHeaders || entity.boundary) {
+			return;
+		}
+		let data: Uint8Array | undefined;
+		if (entity.base64) {
+			const length = last ? entity.base64.length : entity.base64.length - (entity.base64.length % 4);
+			if (length) {
+				data = Base64.toUint8Array(entity.base64.substring(0, length));
+				entity.base64 = entity.base64.substring(length);
+			}
+		} else if (entity.pending.length) {
+			data = str2arr(entity.pending.join(''));
+			entity.pending = [];
+		}
+		if (data && data.length) {
+			entity.size += data.length;
+			this._handler({ type: 'body-chunk', part: entity.part, data });
+		}
+	}
+
+	/**
+	 * Ends the innermost open entity
+	 */
+	private _end() {
+		const entity = this._stack[this._stack.length - 1];
+		if (entity.inHeaders) {
+			//The stream ended within the headers
+			this._flushHeader(entity);
+			this._start(entity);
+		}
+		this._flush(true);
+		this._stack.pop();
+		if (entity.boundary && !entity.count && this._strict && !this._skip) {
+			throw new MissingBoundaryError('Boundary "' + entity.boundary + '" not found!', entity.part.headers.get('Content-Type') as string);
+		}
+		this._handler({ type: 'part-end', part: entity.part, size: entity.size });
+	}
+}
+
+/**
+ * Parses a stream of a message with an `EmlStreamParser`, e.g. of `Blob.stream()` or the body of a fetch response
+ *
+ * @param {ReadableStream<Uint8Array>} stream
+ * @param {Function} handler Called with each event
+ * @param {Options} options see `EmlStreamParser`
+ * @return {Promise<void>} Resolves once the stream is parsed, rejects with an EmlParseError, e.g. thrown by the handler
+ */
+export function parseStream(
+	stream: ReadableStream<Uint8Array>,
+	handler: (event: EmlStreamEvent) => void,
+	options?: OptionOrNull
+): Promise<void> {
+	const parser = new EmlStreamParser(handler, options);
+	const reader = stream.getReader();
+	const pump = (): Promise<void> =>
+		reader.read().then((chunk) => {
+			if (chunk.done) {
+				parser.end();
+				return;
+			}
+			parser.write(chunk.value);
+			return pump();
+		});
+	return pump().then(undefined, (e) => {
+		//Stops the source, the error of the parser is the one to report
+		reader.cancel().then(undefined, () => undefined);
+		throw toEmlParseError(e);
+	});
+}
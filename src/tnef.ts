@@ -0,0 +1,302 @@
+import { decode, getCodepageCharset } from './charset';
+import { InvalidInputError } from './errors';
+import type { Attachment, ReadedEmlJson } from './interface';
+import {
+	ATTACH_EMBEDDED_MSG,
+	filetime,
+	type MapiProperties,
+	type MapiValue,
+	PR_ATTACH_DATA,
+	PR_ATTACH_FILENAME,
+	PR_ATTACH_METHOD,
+	PR_BODY,
+	PR_CLIENT_SUBMIT_TIME,
+	PR_CREATION_TIME,
+	PR_LAST_MODIFICATION_TIME,
+	PR_MESSAGE_CLASS,
+	PR_MESSAGE_DELIVERY_TIME,
+	PR_SUBJECT,
+	PT_BINARY,
+	PT_BOOLEAN,
+	PT_OBJECT,
+	PT_SHORT,
+	PT_STRING8,
+	PT_SYSTIME,
+	PT_UNICODE,
+	toAttachment,
+	toMessage,
+} from './mapi';
+
+const TNEF_SIGNATURE = 0x223e9f78;
+const LVL_MESSAGE = 1;
+const LVL_ATTACHMENT = 2;
+
+//Attribute ids without their type, MS-OXTNEF section 2.1.3.3
+const ATT_SUBJECT = 0x8004;
+const ATT_DATE_SENT = 0x8005;
+const ATT_DATE_RECD = 0x8006;
+const ATT_MESSAGE_CLASS = 0x8008;
+const ATT_BODY = 0x800c;
+const ATT_ATTACH_DATA = 0x800f;
+const ATT_ATTACH_TITLE = 0x8010;
+const ATT_ATTACH_CREATE_DATE = 0x8012;
+const ATT_ATTACH_MODIFY_DATE = 0x8013;
+const ATT_ATTACH_REND_DATA = 0x9002;
+const ATT_MSG_PROPS = 0x9003;
+const ATT_RECIP_TABLE = 0x9004;
+const ATT_ATTACHMENT = 0x9005;
+const ATT_OEM_CODEPAGE = 0x9007;
+
+//Sizes of fixed size property values, padded to 4 bytes
+const FIXED_SIZES: { [type: number]: number } = {
+	0x0001: 4, //PT_NULL
+	0x0002: 4, //PT_SHORT
+	0x0003: 4, //PT_LONG
+	0x0004: 4, //PT_FLOAT
+	0x0005: 8, //PT_DOUBLE
+	0x0006: 8, //PT_CURRENCY
+	0x0007: 8, //PT_APPTIME
+	0x000a: 4, //PT_ERROR
+	0x000b: 4, //PT_BOOLEAN
+	0x0014: 8, //PT_I8
+	0x0040: 8, //PT_SYSTIME
+	0x0048: 16, //PT_CLSID
+};
+const MV_FLAG = 0x1000;
+
+/**
+ * Position in the bytes of a TNEF stream
+ */
+interface TnefReader {
+	bytes: Uint8Array;
+	view: DataView;
+	offset: number;
+}
+
+/**
+ * @param {TnefReader} reader
+ * @param {Number} length
+ * @return {Number} Offset of the next `length` bytes, which are skipped
+ */
+function _take(reader: TnefReader, length: number): number {
+	const offset = reader.offset;
+	if (length < 0 || offset + length > reader.bytes.length) {
+		throw new InvalidInputError('Truncated TNEF stream!');
+	}
+	reader.offset += length;
+	return offset;
+}
+
+/**
+ * @param {TnefReader} reader
+ * @return {Number}
+ */
+function _uint32(reader: TnefReader): number {
+	return reader.view.getUint32(_take(reader, 4), true);
+}
+
+/**
+ * Reads a date attribute, i.e. year, month, day, hour, minute, second and day of week
+ *
+ * @param {Uint8Array} data
+ * @return {Date|undefined}
+ */
+function _date(data: Uint8Array): Date | undefined {
+	if (data.length < 12) {
+		return undefined;
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const field = (index: number) => view.getUint16(index * 2, true);
+	return new Date(Date.UTC(field(0), field(1) - 1, field(2), field(3), field(4), field(5)));
+}
+
+/**
+ * @param {Uint8Array} data String of an attribute or property, with a terminating null character
+ * @param {String} charset
+ * @return {String}
+ */
+function _string(data: Uint8Array, charset: string): string {
+	return decode(data, charset).replace(/\0+$/, '');
+}
+
+/**
+ * Reads the values of a property, there are several of multi-valued and variable size properties
+ *
+ * @param {TnefReader} reader
+ * @param {Number} type Property type
+ * @param {String} charset Charset of 8-bit strings
+ * @return {MapiValue[]}
+ */
+function _readValues(reader: TnefReader, type: number, charset: string): MapiValue[] {
+	const base = type & ~MV_FLAG;
+	const variable = base === PT_STRING8 || base === PT_UNICODE || base === PT_BINARY || base === PT_OBJECT;
+	if (!variable && !FIXED_SIZES[base]) {
+		throw new InvalidInputError('Unknown TNEF property type ' + type + '!');
+	}
+	const count = variable || type & MV_FLAG ? _uint32(reader) : 1;
+	const values = [] as MapiValue[];
+	for (let i = 0; i < count; i++) {
+		if (variable) {
+			const length = _uint32(reader);
+			const offset = _take(reader, length);
+			_take(reader, (4 - (length % 4)) % 4);
+			const data = reader.bytes.subarray(offset, offset + length);
+			if (base === PT_UNICODE) {
+				values.push(_string(data, 'utf-16le'));
+			} else if (base === PT_STRING8) {
+				values.push(_string(data, charset));
+			} else {
+				values.push(data);
+			}
+			continue;
+		}
+		const offset = _take(reader, FIXED_SIZES[base]);
+		if (base === PT_SHORT) {
+			values.push(reader.view.getInt16(offset, true));
+		} else if (base === PT_BOOLEAN) {
+			values.push(reader.view.getUint16(offset, true) !== 0);
+		} else if (base === PT_SYSTIME) {
+			values.push(filetime(reader.view.getUint32(offset, true), reader.view.getUint32(offset + 4, true)));
+		} else if (FIXED_SIZES[base] === 4) {
+			values.push(reader.view.getInt32(offset, true));
+		} else {
+			values.push(reader.bytes.subarray(offset, offset + FIXED_SIZES[base]));
+		}
+	}
+	return values;
+}
+
+/**
+ * Reads an encoded property list of attMsgProps, attAttachment or a row of attRecipTable (MS-OXTNEF section 2.1.3.4).
+ * Named properties and multi-valued properties are skipped.
+ *
+ * @param {TnefReader} reader
+ * @param {String} charset Charset of 8-bit strings
+ * @param {MapiProperties} properties Properties to add to
+ */
+function _readPropertyList(reader: TnefReader, charset: string, properties: MapiProperties) {
+	const count = _uint32(reader);
+	for (let i = 0; i < count; i++) {
+		const tag = _uint32(reader);
+		const id = tag >>> 16;
+		const type = tag & 0xffff;
+		if (id >= 0x8000) {
+			//GUID and kind, then the id or the name
+			_take(reader, 16);
+			const kind = _uint32(reader);
+			const length = _uint32(reader);
+			if (kind === 1) {
+				_take(reader, length + ((4 - (length % 4)) % 4));
+			}
+		}
+		const values = _readValues(reader, type, charset);
+		if (id < 0x8000 && !(type & MV_FLAG) && values.length) {
+			//The binary data of an attachment wins over the object of the same property
+			if (type !== PT_OBJECT || typeof properties[id] === 'undefined') {
+				properties[id] = values[0];
+			}
+		}
+	}
+}
+
+/**
+ * Reads a TNEF stream (MS-OXTNEF), i.e. winmail.dat of an application/ms-tnef part, into the shape of `readEml`.
+ * Attachments have their name, data and dates, embedded messages are attachments with `message` and without `data`.
+ *
+ * @param {Uint8Array} bytes
+ * @return {ReadedEmlJson} throws an InvalidInputError if the bytes are no TNEF stream
+ */
+export function readTnefStream(bytes: Uint8Array): ReadedEmlJson {
+	const reader: TnefReader = { bytes, view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), offset: 0 };
+	if (bytes.length < 6 || _uint32(reader) !== TNEF_SIGNATURE) {
+		throw new InvalidInputError('Not a TNEF stream!');
+	}
+	//Legacy key
+	_take(reader, 2);
+
+	let charset = 'windows-1252';
+	const message: MapiProperties = {};
+	const recipients = [] as MapiProperties[];
+	const attachments = [] as MapiProperties[];
+	//Each attachment starts with its attAttachRendData attribute
+	let attachment: MapiProperties | undefined;
+	while (reader.offset + 9 <= bytes.length) {
+		const level = bytes[_take(reader, 1)];
+		const attribute = _uint32(reader) & 0xffff;
+		const length = _uint32(reader);
+		const offset = _take(reader, length);
+		//Checksum
+		_take(reader, 2);
+		const data = bytes.subarray(offset, offset + length);
+		const list: TnefReader = { bytes: data, view: new DataView(data.buffer, data.byteOffset, data.byteLength), offset: 0 };
+
+		if (level === LVL_MESSAGE) {
+			if (attribute === ATT_OEM_CODEPAGE && length >= 4) {
+				charset = getCodepageCharset(_uint32(list));
+			} else if (attribute === ATT_SUBJECT) {
+				message[PR_SUBJECT] = _string(data, charset);
+			} else if (attribute === ATT_BODY) {
+				message[PR_BODY] = _string(data, charset);
+			} else if (attribute === ATT_MESSAGE_CLASS) {
+				message[PR_MESSAGE_CLASS] = _string(data, charset);
+			} else if (attribute === ATT_DATE_SENT) {
+				message[PR_CLIENT_SUBMIT_TIME] = _date(data);
+			} else if (attribute === ATT_DATE_RECD) {
+				message[PR_MESSAGE_DELIVERY_TIME] = _date(data);
+			} else if (attribute === ATT_MSG_PROPS) {
+				_readPropertyList(list, charset, message);
+			} else if (attribute === ATT_RECIP_TABLE) {
+				const rows = _uint32(list);
+				for (let i = 0; i < rows; i++) {
+					const recipient: MapiProperties = {};
+					_readPropertyList(list, charset, recipient);
+					recipients.push(recipient);
+				}
+			}
+		} else if (level === LVL_ATTACHMENT) {
+			if (attribute === ATT_ATTACH_REND_DATA || !attachment) {
+				attachment = {};
+				attachments.push(attachment);
+			}
+			if (attribute === ATT_ATTACH_TITLE) {
+				attachment[PR_ATTACH_FILENAME] = _string(data, charset);
+			} else if (attribute === ATT_ATTACH_DATA) {
+				attachment[PR_ATTACH_DATA] = data;
+			} else if (attribute === ATT_ATTACH_CREATE_DATE) {
+				attachment[PR_CREATION_TIME] = _date(data);
+			} else if (attribute === ATT_ATTACH_MODIFY_DATE) {
+				attachment[PR_LAST_MODIFICATION_TIME] = _date(data);
+			} else if (attribute === ATT_ATTACHMENT) {
+				_readPropertyList(list, charset, attachment);
+			}
+		}
+	}
+
+	return toMessage(
+		message,
+		recipients,
+		attachments.map((properties) => {
+			//The object of an embedded message is its interface id and a TNEF stream
+			const data = properties[PR_ATTACH_DATA];
+			let embedded: ReadedEmlJson | undefined;
+			if (properties[PR_ATTACH_METHOD] === ATTACH_EMBEDDED_MSG && data instanceof Uint8Array) {
+				try {
+					embedded = readTnefStream(data.subarray(16));
+					delete properties[PR_ATTACH_DATA];
+				} catch (e) {
+					embedded = undefined;
+				}
+			}
+			const result: Attachment = toAttachment(properties);
+			if (embedded) {
+				result.message = embedded;
+				result.contentType = 'message/rfc822';
+				if (!result.name) {
+					result.name = (embedded.subject || 'message') + '.eml';
+				}
+			}
+			return result;
+		}),
+		charset
+	);
+}
@@ -1,12 +1,32 @@
-import { decode } from './charset';
+import { Base64 } from 'js-base64';
+import { arr2str, decode, encode } from './charset';
+import { InvalidInputError } from './errors';
+import type { EmlContent } from './interface';
+import { getParameter } from './paramparser';
 
 /**
  * Gets the boundary name
  * @param contentType - string
  */
 export function getBoundary(contentType: string) {
-	const match = /(?:B|b)oundary=(?:'|")?(.+?)(?:'|")?(\s*;[\s\S]*)?$/g.exec(contentType);
-	return match ? match[1] : undefined;
+	return getParameter(contentType, 'boundary');
+}
+/**
+ * Checks if a line is a delimiter of a multipart, i.e. `--boundary`, `--` for the close delimiter and optional
+ * whitespace up to the end of the line, so that longer boundaries starting with it are no match (RFC 2046 section 5.1.1)
+ * @param line - string without the line break
+ * @param boundary - string
+ * @returns 'delimiter', 'close' or '' for other lines
+ */
+export function getDelimiter(line: string, boundary: string): 'delimiter' | 'close' | '' {
+	if (!boundary || line.indexOf('--' + boundary) !== 0) {
+		return '';
+	}
+	const after = line.substring(boundary.length + 2);
+	if (/^[ \t]*$/.test(after)) {
+		return 'delimiter';
+	}
+	return /^--[ \t]*$/.test(after) ? 'close' : '';
 }
 //Gets the character encoding name for iconv, e.g. 'iso-8859-2' -> 'iso88592'
 export function getCharsetName(charset: string) {
@@ -40,6 +60,16 @@ export function wrap(s: string, i: number) {
  * @return {String} Decoded unicode string
  */
 export function mimeDecode(str = '', fromCharset = 'UTF-8') {
+	return decode(mimeDecodeBytes(str), fromCharset);
+}
+
+/**
+ * Decodes mime encoded string to the raw bytes
+ *
+ * @param {String} str Mime encoded string
+ * @return {Uint8Array} Decoded bytes
+ */
+export function mimeDecodeBytes(str = '') {
 	const encodedBytesCount = (str.match(/=[\da-fA-F]{2}/g) || []).length;
 	let buffer = new Uint8Array(str.length - encodedBytesCount * 2);
 
@@ -54,7 +84,53 @@ export function mimeDecode(str = '', fromCharset = 'UTF-8') {
 		}
 	}
 
-	return decode(buffer, fromCharset);
+	return buffer;
+}
+
+/**
+ * Gets the bytes of EML content
+ * @param {EmlContent} content
+ * @returns {Uint8Array} strings are encoded as UTF-8, buffers are not copied
+ */
+export function toBytes(content: EmlContent): Uint8Array {
+	if (typeof content === 'string') {
+		return encode(content);
+	}
+	if (content instanceof ArrayBuffer) {
+		return new Uint8Array(content);
+	}
+	if (ArrayBuffer.isView(content)) {
+		return new Uint8Array(content.buffer, content.byteOffset, content.byteLength);
+	}
+	throw new InvalidInputError('Content expected to be string, Uint8Array or ArrayBuffer!');
+}
+
+/**
+ * Decodes the body of a part to its raw bytes according to the Content-Transfer-Encoding
+ * @param {String | Uint8Array} content
+ * @param {String} encoding 'base64', 'quoted-printable', '7bit', '8bit' or 'binary'
+ * @returns {Uint8Array}
+ */
+export function decodeTransferEncoding(content: string | Uint8Array, encoding?: string): Uint8Array {
+	if (typeof content !== 'string') {
+		if (!/^(base64|quoted-printable)$/i.test((encoding || '').trim())) {
+			return content;
+		}
+		content = arr2str(content);
+	}
+	switch ((encoding || '').toLowerCase().trim()) {
+		case 'base64':
+			return Base64.toUint8Array(content.replace(/[^A-Za-z0-9+/=_-]/g, ''));
+		case 'quoted-printable':
+			return mimeDecodeBytes(
+				content
+					.replace(/[\t ]+$/gm, '') // remove invalid whitespace from the end of lines
+					.replace(/=(?:\r?\n|$)/g, '') // remove soft line breaks
+			);
+		default:
+			//'7bit', '8bit', 'binary'
+			return encode(content);
+	}
 }
 
 /**
@@ -25,6 +25,12 @@ const {
   getCharset,
   toEmailAddress,
   GBKUTF8,
+  parseHeaderValue,
+  parseDate,
+  getReceivedDate,
+  parseReceived,
+  parseAuthenticationResults,
+  parseDkimSignature,
 } = require('eml-parse-js');
 // const EmlFormat =  require('../src/index.ts').default;
 // const {getEmailAddress, unquoteString} = EmlFormat;
@@ -83,4 +89,87 @@ describe('ts-hi function test', () => {
   //   expect(resS).eq("\"PayPal\" <noreply@paypal.com>, \"PayPal\" <noreply@paypal.com>");
   // });
 
-});
\ No newline at end of file
+  it('parseHeaderValue should keep the whitespace of folded values', () => {
+    expect(parseHeaderValue('attachment; filename="a\r\n b.txt"').params.filename).eq('a b.txt');
+    expect(parseHeaderValue('attachment;\r\n\tfilename="a\r\n\tb.txt"').params).deep.eq({ filename: 'a\tb.txt' });
+  });
+
+  it('parseHeaderValue should decode RFC 2231 parameters', () => {
+    const res = parseHeaderValue("attachment;\r\nfilename*0*=iso-8859-1'de'Gr%FC%DF;\r\nfilename*1=\"e; aus \\\"K\\\"\";\r\nfilename*2*=%F6ln.txt; size=12");
+    expect(res.value).eq('attachment');
+    expect(res.params.filename).eq('Grüße; aus "K"öln.txt');
+    expect(res.params.size).eq('12');
+    expect(parseHeaderValue('text/plain; CHARSET="UTF-8"; name="a;b.txt"').params).deep.eq({ charset: 'UTF-8', name: 'a;b.txt' });
+    expect(getBoundary('multipart/alternative;\r\nboundary="B_3658292830_1398168712"')).eq('B_3658292830_1398168712');
+    expect(getCharset('text/plain; format=flowed; charset=iso-8859-2')).eq('iso-8859-2');
+  });
+
+  it('parseDate should follow RFC 5322 and its obsolete syntax', () => {
+    const utc = Date.UTC(2022, 8, 29, 11, 22, 20);
+    expect(parseDate('Thu, 29 Sep 2022 12:22:20 +0100')).deep.eq({ date: new Date(utc), timestamp: utc, offset: 60 });
+    expect(parseDate('29 Sep 22 07:22:20 EDT').timestamp).eq(utc);
+    expect(parseDate('Thu, 29 Sep 2022 11:22:20 UT').timestamp).eq(utc);
+    expect(parseDate('Thursday, 29 Sep 2022 11 : 22 : 20 (UTC) GMT').timestamp).eq(utc);
+    expect(parseDate('29 Sep 2022 04:22:20 -0700 (PDT)').offset).eq(-420);
+    expect(parseDate('Thu, 29 Sep 2022 11:22:20 A').timestamp).eq(utc);
+    expect(parseDate('Thu Sep 29 11:22:20 2022').timestamp).eq(utc);
+    expect(parseDate('29 Sep 099 11:22:20 +0000').date.getUTCFullYear()).eq(1999);
+    expect(parseDate('not a date')).eq(null);
+    expect(getReceivedDate('from a by b with ESMTPS id x;\r\nThu, 29 Sep 2022 13:22:20 +0200').timestamp).eq(utc);
+  });
+
+  it('parseReceived', () => {
+    const hop = parseReceived('from EUR05-AM6-obe.outbound.protection.outlook.com (mail-am6eur05olkn2062.outbound.protection.outlook.com. [40.92.91.62])\r\n        by mx.google.com with ESMTPS id s19-20020a170906501300b0078d3f1db5f5si8452498ejj.609.2022.10.13.04.08.05\r\n        for <dummyGmailEmail@gmail.com>\r\n        (version=TLS1_2 cipher=ECDHE-ECDSA-AES128-GCM-SHA256 bits=128/128);\r\n        Thu, 13 Oct 2022 04:08:05 -0700 (PDT)');
+    expect(hop.from).eq('EUR05-AM6-obe.outbound.protection.outlook.com');
+    expect(hop.fromHost).eq('mail-am6eur05olkn2062.outbound.protection.outlook.com');
+    expect(hop.fromIp).eq('40.92.91.62');
+    expect(hop.by).eq('mx.google.com');
+    expect(hop.with).eq('ESMTPS');
+    expect(hop.id).eq('s19-20020a170906501300b0078d3f1db5f5si8452498ejj.609.2022.10.13.04.08.05');
+    expect(hop.for).eq('dummyGmailEmail@gmail.com');
+    expect(hop.tlsVersion).eq('TLS1_2');
+    expect(hop.tlsCipher).eq('ECDHE-ECDSA-AES128-GCM-SHA256');
+    expect(hop.timestamp).eq(Date.UTC(2022, 9, 13, 11, 8, 5));
+    expect(hop.offset).eq(-7 * 60);
+
+    const exchange = parseReceived('from AM0PR04MB5635.eurprd04.prod.outlook.com (2603:10a6:208:127::20) by VI1PR04MB6845.eurprd04.prod.outlook.com (2603:10a6:803:138::11) with Microsoft SMTP Server (version=TLS1_2, cipher=TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384) id 15.20.5723.26; Thu, 13 Oct 2022 11:08:04 +0000');
+    expect(exchange.fromIp).eq('2603:10a6:208:127::20');
+    expect(exchange.byIp).eq('2603:10a6:803:138::11');
+    expect(exchange.with).eq('Microsoft SMTP Server');
+    expect(exchange.id).eq('15.20.5723.26');
+    expect(exchange.tlsCipher).eq('TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384');
+
+    const bare = parseReceived('from 200.21.241.94 by 92.63.87.69; Mon, 23 Nov 2015 22:37:26 -0200');
+    expect(bare.fromIp).eq('200.21.241.94');
+    expect(bare.byIp).eq('92.63.87.69');
+    expect(bare.fromHost).eq(undefined);
+  });
+
+  it('parseAuthenticationResults', () => {
+    const results = parseAuthenticationResults('mx.google.com;\r\n       dkim=pass header.i=@outlook.com header.s=selector1 header.b=PAqsO5kx;\r\n       spf=pass (google.com: domain of a@outlook.com designates 40.92.91.62 as permitted sender) smtp.mailfrom=a@outlook.com;\r\n       dmarc=fail reason="policy (p=reject)" header.from=outlook.com');
+    expect(results.authservId).eq('mx.google.com');
+    expect(results.results.map((result) => result.method)).to.deep.equal(['dkim', 'spf', 'dmarc']);
+    expect(results.results[0].properties).to.deep.equal({ 'header.i': '@outlook.com', 'header.s': 'selector1', 'header.b': 'PAqsO5kx' });
+    expect(results.results[1].comment).eq('google.com: domain of a@outlook.com designates 40.92.91.62 as permitted sender');
+    expect(results.results[2].result).eq('fail');
+    expect(results.results[2].reason).eq('policy (p=reject)');
+
+    const arc = parseAuthenticationResults('i=1; mx.microsoft.com 1; spf=none; dmarc=none;\r\n dkim=none; arc=none');
+    expect(arc.instance).eq(1);
+    expect(arc.version).eq(1);
+    expect(arc.results.length).eq(4);
+    expect(parseAuthenticationResults('example.org; none').results.length).eq(0);
+  });
+
+  it('parseDkimSignature', () => {
+    const signature = parseDkimSignature('v=1; a=rsa-sha256; c=relaxed/simple; d=outlook.com;\r\n s=selector1;\r\n h=From:Date:Subject;\r\n bh=NPMnNw92qOXB5baPoCKSIUElwKwcRiYNoeYnwbE4azM=;\r\n b=PAqsO5kx\r\n OKf/y9==');
+    expect(signature.algorithm).eq('rsa-sha256');
+    expect(signature.canonicalization).to.deep.equal({ header: 'relaxed', body: 'simple' });
+    expect(signature.domain).eq('outlook.com');
+    expect(signature.selector).eq('selector1');
+    expect(signature.headers).to.deep.equal(['From', 'Date', 'Subject']);
+    expect(signature.bodyHash).eq('NPMnNw92qOXB5baPoCKSIUElwKwcRiYNoeYnwbE4azM=');
+    expect(signature.signature).eq('PAqsO5kxOKf/y9==');
+  });
+
+});
@@ -8,7 +8,12 @@ const expect = require('chai').expect;
 const {
   readEml,
   parseEml,
-  buildEml
+  buildEml,
+  buildMhtml,
+  readMhtml,
+  buildMbox,
+  readMbox,
+  readMsg,
 } = require('eml-parse-js')
 
 function _read(strOrObj, fileName) {
@@ -72,5 +77,149 @@ describe('buildEml should Ok', () => {
   //   const eml = fs.readFileSync(src, "utf-8");
   //   _build(eml, 'multipart');
   // });
-  
-});
\ No newline at end of file
+
+  it('attachments should survive a round trip', () => {
+    const src = path.join(__dirname, "./fixtures/emailWithAttachments.eml");
+    const eml = fs.readFileSync(src, "utf-8");
+    const readed = readEml(buildEml(readEml(eml)));
+    expect(readed.subject).to.equal('Attachment Email');
+    expect(readed.from.name).to.equal('Pádraig Weeks');
+    expect(readed.text).to.contain('Little body');
+    expect(readed.html).to.contain('<div dir="ltr">Little body</div>');
+    expect(readed.attachments.length).to.equal(2);
+    expect(readed.attachments[1].name).to.equal('Small text file2.txt');
+  });
+
+  it('changed attachment data should be built instead of data64', () => {
+    const src = path.join(__dirname, "./fixtures/emailWithAttachments.eml");
+    const eml = readEml(fs.readFileSync(src, "utf-8"));
+    eml.attachments[1].data = new TextEncoder().encode('changed');
+    const readed = readEml(buildEml(eml));
+    expect(new TextDecoder().decode(readed.attachments[1].data)).to.equal('changed');
+    delete eml.attachments[1].data;
+    eml.attachments[1].data64 = 'ZGF0YTY0';
+    expect(new TextDecoder().decode(readEml(buildEml(eml)).attachments[1].data)).to.equal('data64');
+  });
+
+  it('attached messages should be built as they are, not base64 encoded', () => {
+    const eml = [
+      'Subject: Fwd',
+      'Content-Type: multipart/mixed; boundary="b"',
+      '',
+      '--b',
+      'Content-Type: text/plain',
+      '',
+      'see below',
+      '--b',
+      'Content-Type: message/rfc822',
+      '',
+      'Subject: hello',
+      'Content-Type: text/plain',
+      '',
+      'hello',
+      '--b',
+      'Content-Type: message/global',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('Subject: Grüße\r\nContent-Type: text/plain; charset=utf-8\r\n\r\nhallo\r\n').toString('base64'),
+      '--b--',
+      '',
+    ].join('\r\n');
+    const built = buildEml(readEml(eml));
+    expect(built).to.match(/Content-Type: message\/rfc822\r\nContent-Transfer-Encoding: 7bit\r\n/);
+    expect(built).to.match(/Content-Type: message\/global\r\nContent-Transfer-Encoding: 8bit\r\n/);
+    expect(built).to.contain('\r\n\r\nSubject: hello\r\n');
+    const [forwarded, global] = readEml(built).attachments;
+    expect(forwarded.message.subject).to.equal('hello');
+    expect(forwarded.message.text.trim()).to.equal('hello');
+    expect(global.message.subject).to.equal('Grüße');
+    expect(global.message.text.trim()).to.equal('hallo');
+  });
+
+  it('embedded Outlook messages should be built as message/rfc822', () => {
+    const msg = readMsg(new Uint8Array(fs.readFileSync(path.join(__dirname, './fixtures/outlookEmbeddedMessage.msg'))));
+    const built = buildEml(msg);
+    expect(built).to.not.match(/Content-Type: message\/rfc822\r\nContent-Transfer-Encoding: base64/);
+    const embedded = readEml(built).attachments[0];
+    expect(embedded.message.subject).to.equal('Embedded email');
+    expect(embedded.message.attachments.map((attachment) => attachment.name)).to.deep.equal(['dog.jpg', 'cat.jpg']);
+  });
+
+  it('unicode headers and bodies should be encoded', () => {
+    const eml = buildEml({
+      headers: {},
+      subject: 'Grüße aus Köln, コピーボタンをクリックすると',
+      from: { name: 'Jörg', email: 'joerg@example.com' },
+      to: [{ name: 'A', email: 'a@example.com' }, { name: '', email: 'b@example.com' }],
+      bcc: { name: 'undisclosed-recipients', email: '', group: [] },
+      text: 'Grüße\r\n' + 'x'.repeat(100),
+      html: '<p>Grüße</p>',
+    });
+    expect(eml).to.not.match(/[^\x00-\x7f]/);
+    expect(eml.split('\r\n').every((line) => line.length <= 78)).to.be.true;
+    expect(eml).to.contain('multipart/alternative');
+    const readed = readEml(eml);
+    expect(readed.subject).to.equal('Grüße aus Köln, コピーボタンをクリックすると');
+    expect(readed.from.name).to.equal('Jörg');
+    expect(readed.to.length).to.equal(2);
+    expect(readed.bcc).to.deep.equal({ name: 'undisclosed-recipients', email: '', group: [] });
+    expect(readed.text).to.equal('Grüße\r\n' + 'x'.repeat(100));
+    expect(readed.html).to.equal('<p>Grüße</p>');
+  });
+
+  it('MHTML archives of a document and its resources', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+    const css = 'body { background: url(bg.png); }\r\n/* Grüße */';
+    const mhtml = buildMhtml({
+      html: '<html><head><link rel="stylesheet" href="style.css"></head><body><p>Grüße ' + 'x'.repeat(100) + '</p><img src="bg.png"></body></html>',
+      url: 'https://example.com/page/index.html',
+      subject: 'Grüße',
+      resources: [
+        { url: 'https://example.com/page/style.css', contentType: 'text/css', bytes: css },
+        { url: 'https://example.com/page/bg.png', contentType: 'image/png', bytes: png },
+      ],
+    });
+    expect(mhtml).to.not.match(/[^\x00-\x7f]/);
+    expect(mhtml.split('\r\n').every((line) => line.length <= 78)).to.be.true;
+    expect(mhtml).to.contain('type="text/html"');
+
+    const readed = readMhtml(mhtml);
+    expect(readed.snapshotContentLocation).to.equal('https://example.com/page/index.html');
+    expect(readed.subject).to.equal('Grüße');
+    expect(readed.root.url).to.equal('https://example.com/page/index.html');
+    expect(readed.html).to.contain('<p>Grüße xxx');
+    expect(readed.resources['https://example.com/page/style.css'].content).to.equal(css);
+    expect(Array.from(readed.resources['https://example.com/page/bg.png'].content)).to.deep.equal(Array.from(png));
+    expect(readMhtml(mhtml, { rewrite: true }).html).to.contain('href="data:text/css;charset=utf-8;base64,');
+  });
+
+  it('MHTML round trip of a saved page', () => {
+    const saved = readMhtml(fs.readFileSync(path.join(__dirname, './fixtures/savedWebpage.mhtml')));
+    const resources = Object.keys(saved.resources)
+      .map((url) => saved.resources[url])
+      .filter((resource, index, all) => resource !== saved.root && all.indexOf(resource) === index)
+      .map((resource) => ({ url: resource.url, contentType: resource.contentType, bytes: resource.content }));
+    const readed = readMhtml(buildMhtml({ html: saved.html, url: saved.snapshotContentLocation, subject: saved.subject, resources }));
+    expect(readed.html).to.equal(saved.html);
+    expect(readed.resources['cid:css-7bcec149-4ba2-4ac4-84e4-f111ef6bc0ab@mhtml.blink'].content).to.equal(
+      saved.resources['cid:css-7bcec149-4ba2-4ac4-84e4-f111ef6bc0ab@mhtml.blink'].content
+    );
+  });
+
+  it('mboxrd files quote From lines', () => {
+    const first = 'Return-Path: <bounce@example.org>\r\nFrom: sender@example.org\r\nDate: Thu, 29 Sep 2022 12:22:20 +0100\r\nSubject: first\r\n\r\nFrom the start\r\n>From quoted';
+    const second = 'Subject: second\n\nbody\n';
+    const mbox = new TextDecoder().decode(buildMbox([{ eml: first }, { eml: second, sender: 'me@example.com', date: new Date(Date.UTC(2022, 8, 1)) }]));
+    expect(mbox).to.equal(
+      'From bounce@example.org Thu Sep 29 11:22:20 2022\r\n' +
+        first.replace('\r\nFrom the start\r\n>From', '\r\n>From the start\r\n>>From') +
+        '\r\n\r\n' +
+        'From me@example.com Thu Sep  1 00:00:00 2022\n' +
+        second +
+        '\n'
+    );
+    const messages = Array.from(readMbox(mbox));
+    expect(new TextDecoder().decode(messages[0].raw)).to.equal(first + '\r\n');
+    expect(messages[1].eml.subject).to.equal('second');
+  });
+});
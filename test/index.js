@@ -7,6 +7,30 @@ const {
   readEml,
   parseEml,
   buildEml,
+  readEmlAsync,
+  parseEmlAsync,
+  parseEmlStream,
+  EmlStreamParser,
+  EmlParseError,
+  parseMbox,
+  readMbox,
+  readMsg,
+  readTnef,
+  CompoundFile,
+  decompressRtf,
+  deEncapsulateRtf,
+  InvalidInputError,
+  MalformedHeaderError,
+  MissingBoundaryError,
+  getDeliveryPath,
+  verifyDkim,
+  verifySmime,
+  toMimeTree,
+  walkMimeTree,
+  findMimeNode,
+  selectAlternative,
+  resolveInlineImages,
+  readMhtml,
 } = require('eml-parse-js');
 
 function _read(strOrObj, fileName) {
@@ -99,6 +123,55 @@ describe('readEml should decode', () => {
     expect(readEmlJson.to.email).to.equal('leon.struck@web.de');
 	});
 
+  it('reply-to, return-path and delivered-to', () => {
+    const readEmlJson = readEmlForTest('./fixtures/spam.eml');
+    expect(readEmlJson.replyTo.name).to.equal('Matilda Klein');
+    expect(readEmlJson.replyTo.email).to.equal('noreply@guide-des-vins-de-bourgogne.fr');
+    expect(readEmlJson.returnPath.email).to.equal('noreply@nestor.co.uk');
+    const recipientsJson = readEmlForTest('./fixtures/multipleRecipientsEmail.eml');
+    expect(recipientsJson.deliveredTo.email).to.equal('dummyGmailEmail@gmail.com');
+  });
+
+  it('delivery path in chronological order', () => {
+    const readEmlJson = readEmlForTest('./fixtures/spam.eml');
+    const path = getDeliveryPath(readEmlJson.headers);
+    expect(path.map((hop) => hop.by)).to.deep.equal(['92.63.87.69', 'mx-ha.web.de']);
+    expect(path[0].delay).to.equal(undefined);
+    expect(path[1].delay).to.equal(454000);
+    expect(path[1].fromIp).to.equal('212.170.160.112');
+    expect(path[1].with).to.equal('ESMTP');
+    expect(path[1].for).to.equal('ironman2@web.de');
+  });
+
+  it('authentication headers', () => {
+    const readEmlJson = readEmlForTest('./fixtures/multipleRecipientsEmail.eml');
+    const { authenticationResults, dkimSignatures, arc } = readEmlJson.authentication;
+    expect(authenticationResults[0].results.find((result) => result.method === 'dmarc').properties['header.from']).to.equal('outlook.com');
+    expect(dkimSignatures[0].domain).to.equal('outlook.com');
+    expect(arc.map((set) => set.instance)).to.deep.equal([1, 2]);
+    expect(arc[1].seal.chainValidation).to.equal('pass');
+    expect(arc[1].messageSignature.selector).to.equal('arc-20160816');
+    expect(arc[0].authenticationResults.authservId).to.equal('mx.microsoft.com');
+    expect(readEmlForTest('./fixtures/smallEmail.eml').authentication).to.equal(undefined);
+  });
+
+  it('addresses always as arrays with addressArray', () => {
+    const src = path.join(__dirname, './fixtures/smallEmail.eml');
+    const readEmlJson = readEml(fs.readFileSync(src, 'utf-8'), { addressArray: true });
+    expect(readEmlJson.from).to.deep.equal([{ name: 'Nobody there', email: 'dummyEmail@emailClient.com' }]);
+    expect(readEmlJson.to.length).to.equal(1);
+  });
+
+  it('address groups with their members', () => {
+    const readEmlJson = readEml('To: undisclosed-recipients:;\r\nCc: Team: "A" <a@example.com>, b@example.com;, c@example.com\r\n\r\nbody');
+    expect(readEmlJson.to).to.deep.equal({ name: 'undisclosed-recipients', email: '', group: [] });
+    expect(readEmlJson.cc[0].name).to.equal('Team');
+    expect(readEmlJson.cc[0].group).to.deep.equal([{ name: 'A', email: 'a@example.com' }, { name: '', email: 'b@example.com' }]);
+    expect(readEmlJson.cc[1].email).to.equal('c@example.com');
+    const flattened = readEml('Cc: Team: a@example.com, b@example.com;, c@example.com\r\n\r\nbody', { addressFlatten: true });
+    expect(flattened.cc.map((address) => address.email)).to.deep.equal(['a@example.com', 'b@example.com', 'c@example.com']);
+  });
+
   it('cc recepient', () => {
     const readEmlJson = readEmlForTest('./fixtures/multipleRecipientsEmail.eml');
     expect(readEmlJson.cc).to.exist;
@@ -126,11 +199,40 @@ describe('readEml should decode', () => {
     assert.deepEqual(readEmlJson.date, new Date('Thu, 29 Sep 2022 12:22:20 +0100'));
 	});
 
+  it('headers case-insensitively in their original order', () => {
+    const readEmlJson = readEmlForTest('./fixtures/multipleRecipientsEmail.eml');
+    expect(readEmlJson.headers.get('content-type')).to.contain('multipart/alternative');
+    expect(readEmlJson.headers.has('MESSAGE-ID')).to.be.true;
+    expect(readEmlJson.headers.getAll('x-ms-exchange-crosstenant-rms-persistedconsumerorg').length).to.equal(2);
+    const lines = readEmlJson.headers.lines();
+    expect(lines[1].raw).to.equal('Received: by 2002:a05:7300:64c5:b0:7c:ab42:c96f with SMTP id a5csp253938dyg;\r\n        Thu, 13 Oct 2022 04:08:05 -0700 (PDT)');
+    expect(lines.filter((line) => line.name === 'Received').length).to.equal(readEmlJson.headers.getAll('received').length);
+  });
+
+  it('headers named like methods of the collection', () => {
+    const result = readEml('get: x\r\nhas: y\r\nlines: z\r\n\tfolded\r\nSubject: hi\r\nContent-Type: text/plain\r\n\r\nbody');
+    expect(result.subject).to.equal('hi');
+    expect(result.text).to.equal('body');
+    expect(result.headers.get('get')).to.equal('x');
+    expect(result.headers.has('has')).to.be.true;
+    expect(result.headers.getAll('Lines')).to.deep.equal(['z\r\nfolded']);
+    expect(result.headers.lines().map((line) => line.name)).to.deep.equal(['get', 'has', 'lines', 'Subject', 'Content-Type']);
+  });
+
   it('attachments', () => {
 		const readEmlJson = readEmlForTest('./fixtures/emailWithAttachments.eml');
     expect(readEmlJson.attachments.length).to.equal(2);
-    expect(readEmlJson.attachments[0].name).to.equal('Smalltextfile.txt');
-    expect(readEmlJson.attachments[1].name).to.equal('Smalltextfile2.txt');
+    expect(readEmlJson.attachments[0].name).to.equal('Small text file.txt');
+    expect(readEmlJson.attachments[1].name).to.equal('Small text file2.txt');
+	});
+
+  it('attachment content', () => {
+		const readEmlJson = readEmlForTest('./fixtures/emailWithAttachments.eml');
+    const attachment = readEmlJson.attachments[0];
+    expect(attachment.data64).to.equal('77u/U21hbGwgdGV4dCBmaWxlCg==');
+    expect(attachment.data).to.be.instanceOf(Uint8Array);
+    expect(attachment.size).to.equal(19);
+    expect(Buffer.from(attachment.data).toString('utf-8')).to.equal('\ufeffSmall text file\n');
 	});
 
   it('inline attachments', () => {
@@ -157,9 +259,893 @@ describe('readEml should decode', () => {
     expect(readEmlJson.html).to.contain('This is a test');
   })
 
+  it('binary content the same way as strings', () => {
+    const readEmlJson = readEmlForTest('./fixtures/unicode.eml', null);
+    expect(readEmlJson.text).to.contain('コピーボタンをクリックすると');
+    expect(readEmlJson.html).to.contain('コピーボタンをクリックすると');
+    const attachmentsJson = readEmlForTest('./fixtures/inlineAttachment.eml', null);
+    expect(attachmentsJson.attachments[0].name).to.equal('image.png');
+    expect(attachmentsJson.attachments[0].data64).to.equal(readEmlForTest('./fixtures/inlineAttachment.eml').attachments[0].data64);
+  });
+
+  it('the same html from strings and bytes', () => {
+    const html = (encoding, body) => [
+      'Subject: html',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: ' + encoding,
+      '',
+      body,
+      '',
+    ].join('\r\n');
+    [
+      html('quoted-printable', '<p class=3D"a">Gr=C3=BC=C3=9Fe</p>\r\n<p>&quot;quoted&quot;</p>'),
+      html('8bit', '<p>Grüße</p>\r\n<p>&quot;quoted&quot;</p>'),
+      html('base64', Buffer.from('<p>line</p>\r\n<p>next</p>\r\n').toString('base64')),
+    ].forEach((eml) => {
+      expect(readEml(new TextEncoder().encode(eml)).html).to.equal(readEml(eml).html);
+    });
+    expect(readEmlForTest('./fixtures/unicode.eml', null).html).to.equal(readEmlForTest('./fixtures/unicode.eml').html);
+  });
+
+  it('8bit bodies with the charset of the part', () => {
+    const eml = Buffer.concat([
+      Buffer.from('Subject: Caf\xc3\xa9\r\nContent-Type: text/plain; charset=iso-8859-1\r\nContent-Transfer-Encoding: 8bit\r\n\r\n', 'latin1'),
+      Buffer.from('Gr\xfc\xdfe', 'latin1'),
+    ]);
+    const readEmlJson = readEml(new Uint8Array(eml).buffer);
+    expect(readEmlJson.subject).to.equal('Café');
+    expect(readEmlJson.text).to.equal('Grüße');
+  });
+
+  it('binary parts with their line breaks as they are', () => {
+    const data = Buffer.from([0x00, 0x0a, 0x0d, 0x0a, 0xff, 0x0a, 0x0d, 0x01]);
+    const eml = Buffer.concat([
+      Buffer.from('Subject: binary\nContent-Type: multipart/mixed; boundary="b"\n\n--b\nContent-Type: text/plain; charset=iso-8859-1\nContent-Transfer-Encoding: 8bit\n\nGr\xfc\xdfe\nline\n--b\n'
+        + 'Content-Type: application/octet-stream; name="a.bin"\nContent-Transfer-Encoding: binary\n\n', 'latin1'),
+      data,
+      Buffer.from('\r\n--b--\n'),
+    ]);
+    const readEmlJson = readEml(new Uint8Array(eml));
+    expect(readEmlJson.text).to.equal('Grüße\nline');
+    expect(Array.from(readEmlJson.attachments[0].data)).to.deep.equal(Array.from(data));
+  });
+
   it('should decode mhtml with separator that is surrounded by "--"', () => {
     const readEmlJson = readEmlForTest('./fixtures/savedWebpage.mhtml');
     expect(readEmlJson.text).to.be.undefined;
     expect(readEmlJson.html).to.contain('The URI of an MHTML aggregate is not the same as the URI of its root');
   })
-})
\ No newline at end of file
+})
+
+describe('MIME tree', () => {
+  const nested = [
+    'Subject: nested',
+    'Content-Type: multipart/mixed; boundary="mixed"',
+    '',
+    '--mixed',
+    'Content-Type: multipart/related; boundary="related"',
+    '',
+    '--related',
+    'Content-Type: multipart/alternative; boundary="alternative"',
+    '',
+    '--alternative',
+    'Content-Type: text/plain; charset=iso-8859-1',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Gr=FC=DFe',
+    '--alternative',
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    '<p>Hi <img src="cid:logo"></p>',
+    '--alternative--',
+    '',
+    '--related',
+    'Content-Type: image/png',
+    'Content-ID: <logo>',
+    'Content-Transfer-Encoding: base64',
+    '',
+    'iVBORw0KGgo=',
+    '--related--',
+    '',
+    '--mixed',
+    'Content-Type: application/pdf; name="a.pdf"',
+    'Content-Disposition: attachment; filename="a.pdf"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    'JVBERi0=',
+    '--mixed--',
+    '',
+  ].join('\r\n');
+
+  it('parts of any depth with their paths', () => {
+    const tree = toMimeTree(parseEml(nested));
+    const paths = [];
+    walkMimeTree(tree, (node) => { paths.push(node.path + ' ' + node.contentType); });
+    expect(paths).to.deep.equal([
+      ' multipart/mixed',
+      '1 multipart/related',
+      '1.1 multipart/alternative',
+      '1.1.1 text/plain',
+      '1.1.2 text/html',
+      '1.2 image/png',
+      '2 application/pdf',
+    ]);
+    const text = findMimeNode(tree, (node) => node.path === '1.1.1');
+    expect(text.content).to.equal('Grüße');
+    expect(text.params.charset).to.equal('iso-8859-1');
+    const pdf = findMimeNode(tree, (node) => node.disposition === 'attachment');
+    expect(pdf.dispositionParams.filename).to.equal('a.pdf');
+    expect(Array.from(pdf.content)).to.deep.equal([0x25, 0x50, 0x44, 0x46, 0x2d]);
+  });
+
+  it('readEml reads nested parts', () => {
+    const readEmlJson = readEml(nested);
+    expect(readEmlJson.text).to.equal('Grüße');
+    expect(readEmlJson.html).to.equal('<p>Hi <img src="cid:logo"></p>');
+    expect(readEmlJson.multipartAlternative['Content-Type']).to.contain('multipart/alternative');
+    expect(readEmlJson.attachments.map((attachment) => attachment.contentId || attachment.name)).to.deep.equal(['logo', 'a.pdf']);
+  });
+
+  it('takes no longer boundary starting with the boundary for a delimiter', () => {
+    const eml = [
+      'Content-Type: multipart/mixed; boundary="b"',
+      '',
+      '--b',
+      'Content-Type: multipart/alternative; boundary="b2"',
+      '',
+      '--b2',
+      'Content-Type: text/plain',
+      '',
+      'plain',
+      '--b2',
+      'Content-Type: text/html',
+      '',
+      '<p>html</p>',
+      '--b2--',
+      '--b \t',
+      'Content-Type: application/pdf; name="a.pdf"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'JVBERi0=',
+      '--b-- ',
+      '',
+    ].join('\r\n');
+    const paths = [];
+    walkMimeTree(toMimeTree(parseEml(eml)), (node) => { paths.push(node.path + ' ' + node.contentType); });
+    expect(paths).to.deep.equal([' multipart/mixed', '1 multipart/alternative', '1.1 text/plain', '1.2 text/html', '2 application/pdf']);
+    const readEmlJson = readEml(new TextEncoder().encode(eml));
+    expect(readEmlJson.text.trim()).to.equal('plain');
+    expect(readEmlJson.attachments.map((attachment) => attachment.name)).to.deep.equal(['a.pdf']);
+    const starts = [];
+    const parser = new EmlStreamParser((event) => event.type === 'part-start' && starts.push(event.part.path));
+    parser.write(eml);
+    parser.end();
+    expect(starts).to.deep.equal(['', '1', '1.1', '1.2', '2']);
+  });
+});
+
+describe('multipart/alternative', () => {
+  const eml = [
+    'Subject: alternatives',
+    'Content-Type: multipart/mixed; boundary="mixed"',
+    '',
+    '--mixed',
+    'Content-Type: multipart/alternative; boundary="alternative"',
+    '',
+    '--alternative',
+    'Content-Type: text/plain',
+    '',
+    'plain',
+    '--alternative',
+    'Content-Type: text/html',
+    '',
+    '<p>old html</p>',
+    '--alternative',
+    'Content-Type: text/html',
+    '',
+    '<p>html</p>',
+    '--alternative--',
+    '',
+    '--mixed',
+    'Content-Type: image/png',
+    'Content-Transfer-Encoding: base64',
+    '',
+    'iVBORw0KGgo=',
+    '--mixed',
+    'Content-Type: text/plain',
+    '',
+    'signature',
+    '--mixed--',
+    '',
+  ].join('\r\n');
+
+  it('picks the last alternative of the preferred type', () => {
+    const readEmlJson = readEml(eml);
+    expect(readEmlJson.text).to.equal('plain');
+    expect(readEmlJson.html).to.equal('<p>html</p>');
+    expect(readEmlJson.bodyParts.map((part) => part.path + ' ' + part.content.trim())).to.deep.equal(['1.3 <p>html</p>', '3 signature']);
+    expect(readEmlJson.attachments.length).to.equal(1);
+  });
+
+  it('respects the preference order', () => {
+    const readEmlJson = readEml(eml, { alternativePreference: ['text/plain'] });
+    expect(readEmlJson.bodyParts.map((part) => part.content.trim())).to.deep.equal(['plain', 'signature']);
+    const tree = toMimeTree(parseEml(eml));
+    expect(selectAlternative(tree.children[0], ['application/pdf', 'text/*']).path).to.equal('1.3');
+  });
+});
+
+describe('attached messages', () => {
+  const eml = [
+    'Subject: Fwd: hello',
+    'Content-Type: multipart/mixed; boundary="outer"',
+    '',
+    '--outer',
+    'Content-Type: text/plain',
+    '',
+    'see below',
+    '--outer',
+    'Content-Type: message/rfc822',
+    'Content-Disposition: attachment; filename="hello.eml"',
+    '',
+    'Subject: hello',
+    'From: a@example.com',
+    'Content-Type: multipart/alternative; boundary="inner"',
+    '',
+    '--inner',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    'Grüße',
+    '--inner',
+    'Content-Type: text/html',
+    '',
+    '<p>hi</p>',
+    '--inner--',
+    '',
+    '--outer',
+    'Content-Type: message/global',
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from('Subject: Grüße\r\nFrom: Jörg <jörg@example.com>\r\nContent-Type: text/plain; charset=utf-8\r\n\r\nhallo\r\n').toString('base64'),
+    '--outer--',
+    '',
+  ].join('\r\n');
+
+  it('message/rfc822 and message/global are read recursively', () => {
+    [eml, new TextEncoder().encode(eml)].forEach((input) => {
+      const readEmlJson = readEml(input);
+      expect(readEmlJson.text.trim()).to.equal('see below');
+      const [forwarded, global] = readEmlJson.attachments;
+      expect(forwarded.name).to.equal('hello.eml');
+      expect(forwarded.message.subject).to.equal('hello');
+      expect(forwarded.message.from.email).to.equal('a@example.com');
+      expect(forwarded.message.text).to.equal('Grüße');
+      expect(forwarded.message.html.trim()).to.equal('<p>hi</p>');
+      expect(global.message.subject).to.equal('Grüße');
+      expect(global.message.from).to.deep.equal({ name: 'Jörg', email: 'jörg@example.com' });
+      expect(global.message.text.trim()).to.equal('hallo');
+    });
+  });
+
+  it('keeps the raw message to save it as .eml', () => {
+    const forwarded = readEml(eml).attachments[0];
+    const raw = new TextDecoder().decode(forwarded.data);
+    expect(raw.indexOf('Subject: hello\r\n')).to.equal(0);
+    expect(readEml(raw).subject).to.equal('hello');
+  });
+});
+
+describe('bounces', () => {
+  it('delivery status notifications (RFC 3464)', () => {
+    const eml = [
+      'From: MAILER-DAEMON@mx.example.com (Mail Delivery System)',
+      'To: sender@example.org',
+      'Subject: Undelivered Mail Returned to Sender',
+      'Content-Type: multipart/report; report-type=delivery-status; boundary="report"',
+      '',
+      '--report',
+      'Content-Type: text/plain',
+      '',
+      'I am sorry to have to inform you that your message could not be delivered.',
+      '--report',
+      'Content-Type: message/delivery-status',
+      '',
+      'Reporting-MTA: dns; mx.example.com',
+      'Arrival-Date: Thu, 29 Sep 2022 12:22:20 +0100',
+      '',
+      'Original-Recipient: rfc822;Nobody@example.net',
+      'Final-Recipient: rfc822; nobody@example.net',
+      'Action: failed',
+      'Status: 5.1.1',
+      'Remote-MTA: dns; mail.example.net',
+      'Diagnostic-Code: smtp; 550 5.1.1 <nobody@example.net>: Recipient address',
+      '    rejected: User unknown',
+      '',
+      'Final-Recipient: rfc822; slow@example.net',
+      'Action: delayed',
+      'Status: 4.4.1 (connection timed out)',
+      'Will-Retry-Until: Sat, 1 Oct 2022 12:22:20 +0100',
+      '',
+      '--report',
+      'Content-Type: text/rfc822-headers',
+      '',
+      'From: sender@example.org',
+      'Subject: hello',
+      'Message-ID: <original@example.org>',
+      '',
+      '--report--',
+      '',
+    ].join('\r\n');
+    const { bounce } = readEml(eml);
+    expect(bounce.type).to.equal('dsn');
+    expect(bounce.message.reportingMta).to.equal('mx.example.com');
+    expect(bounce.message.arrivalDate.toISOString()).to.equal('2022-09-29T11:22:20.000Z');
+    expect(bounce.recipients.map((recipient) => [recipient.finalRecipient, recipient.action, recipient.status])).to.deep.equal([
+      ['nobody@example.net', 'failed', '5.1.1'],
+      ['slow@example.net', 'delayed', '4.4.1'],
+    ]);
+    const [failed, delayed] = bounce.recipients;
+    expect(failed.originalRecipient).to.equal('Nobody@example.net');
+    expect(failed.remoteMta).to.equal('mail.example.net');
+    expect(failed.diagnosticCode).to.equal('550 5.1.1 <nobody@example.net>: Recipient address rejected: User unknown');
+    expect(delayed.willRetryUntil.toISOString()).to.equal('2022-10-01T11:22:20.000Z');
+    expect(bounce.originalHeaders.get('Subject')).to.equal('hello');
+    expect(bounce.originalMessageId).to.equal('original@example.org');
+  });
+
+  it('guesses non-standard bounces', () => {
+    const qmail = [
+      'From: MAILER-DAEMON@mx.example.com',
+      'To: sender@example.org',
+      'Subject: failure notice',
+      '',
+      "Hi. This is the qmail-send program at mx.example.com.",
+      "I'm afraid I wasn't able to deliver your message to the following addresses.",
+      '',
+      '<nobody@example.net>:',
+      '192.0.2.1 does not like recipient.',
+      'Remote host said: 550 5.1.1 <nobody@example.net>: Recipient address rejected',
+      'Giving up on 192.0.2.1.',
+      '',
+      '--- Below this line is a copy of the message.',
+      '',
+      'From: sender@example.org',
+      'To: nobody@example.net',
+      'Message-ID: <original@example.org>',
+      '',
+      'hello',
+    ].join('\r\n');
+    const bounce = readEml(qmail).bounce;
+    expect(bounce.type).to.equal('heuristic');
+    expect(bounce.recipients).to.have.length(1);
+    expect(bounce.recipients[0]).to.include({
+      finalRecipient: 'nobody@example.net',
+      action: 'failed',
+      status: '5.1.1',
+      diagnosticCode: '550 5.1.1 <nobody@example.net>: Recipient address rejected',
+    });
+    expect(bounce.originalMessageId).to.equal('original@example.org');
+
+    const exim = [
+      'From: Mail Delivery System <Mailer-Daemon@mx.example.com>',
+      'To: sender@example.org',
+      'Subject: Mail delivery failed: returning message to sender',
+      'X-Failed-Recipients: full@example.net',
+      '',
+      'This message was created automatically by mail delivery software.',
+      '',
+      '  full@example.net',
+      '    host mail.example.net [192.0.2.1]',
+      '    SMTP error from remote mail server after RCPT TO:<full@example.net>:',
+      '    452 4.2.2 Mailbox full',
+    ].join('\r\n');
+    expect(readEml(exim).bounce.recipients[0]).to.include({
+      finalRecipient: 'full@example.net',
+      action: 'failed',
+      status: '4.2.2',
+      remoteMta: 'mail.example.net',
+      diagnosticCode: '452 4.2.2 Mailbox full',
+    });
+
+    expect(readEmlForTest('./fixtures/smallEmail.eml').bounce).to.be.undefined;
+  });
+});
+
+describe('inline images', () => {
+  it('cid: URLs to data: URIs or URLs of the caller', () => {
+    const readEmlJson = readEmlForTest('./fixtures/inlineAttachment.eml');
+    const html = resolveInlineImages(readEmlJson);
+    expect(html).to.contain('<img src="data:image/png;base64,iVBORw0KGgo');
+    expect(html).not.to.contain('cid:');
+    expect(resolveInlineImages(readEmlJson, { urlFor: (attachment) => 'blob:' + attachment.contentId })).to.contain('<img src="blob:ii_l96yywux0"');
+  });
+
+  it('Content-Location relative to the html', () => {
+    const readEmlJson = readEml([
+      'Content-Type: multipart/related; boundary="related"',
+      '',
+      '--related',
+      'Content-Type: text/html',
+      'Content-Location: http://example.com/pages/index.html',
+      '',
+      '<div style="background: url(\'../images/bg.gif\')"><img src=logo.gif><a href="cid:missing">x</a></div>',
+      '--related',
+      'Content-Type: image/gif',
+      'Content-Location: http://example.com/pages/logo.gif',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'R0lGODlh',
+      '--related',
+      'Content-Type: image/gif',
+      'Content-Location: ../images/bg.gif',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'R0lGODdh',
+      '--related--',
+      '',
+    ].join('\r\n'));
+    expect(resolveInlineImages(readEmlJson)).to.equal('<div style="background: url(\'data:image/gif;base64,R0lGODdh\')"><img src=data:image/gif;base64,R0lGODlh><a href="cid:missing">x</a></div>');
+  });
+});
+
+describe('MHTML', () => {
+  it('root document and resources of a saved page', () => {
+    const mhtml = readMhtml(fs.readFileSync(path.join(__dirname, './fixtures/savedWebpage.mhtml')));
+    expect(mhtml.snapshotContentLocation).to.equal('https://www.rfc-editor.org/rfc/rfc2557.html');
+    expect(mhtml.root.url).to.equal('https://www.rfc-editor.org/rfc/rfc2557.html');
+    expect(mhtml.html).to.contain('href="cid:css-7bcec149-4ba2-4ac4-84e4-f111ef6bc0ab@mhtml.blink"');
+    expect(mhtml.resources['cid:frame-6D919546DCF2B4D8489546CC1F300539@mhtml.blink']).to.equal(mhtml.root);
+    const css = mhtml.resources['cid:css-7bcec149-4ba2-4ac4-84e4-f111ef6bc0ab@mhtml.blink'];
+    expect(css.contentType).to.equal('text/css');
+    expect(css.content).to.contain('@media');
+  });
+
+  it('rewrites URLs for offline rendering', () => {
+    const mhtml = readMhtml(fs.readFileSync(path.join(__dirname, './fixtures/savedWebpage.mhtml'), 'utf-8'), { rewrite: true });
+    expect(mhtml.html).not.to.contain('cid:css-');
+    expect(mhtml.html).to.contain('href="data:text/css;charset=utf-8;base64,');
+
+    const related = readMhtml([
+      'Content-Type: multipart/related; boundary="b"; type="text/html"; start="<root>"',
+      '',
+      '--b',
+      'Content-Type: image/gif',
+      'Content-Location: http://example.com/images/a.gif',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'R0lGODlh',
+      '--b',
+      'Content-Type: text/html',
+      'Content-ID: <root>',
+      'Content-Location: http://example.com/index.html',
+      '',
+      '<img src="images/a.gif"><img src="b.gif">',
+      '--b--',
+      '',
+    ].join('\r\n'), { rewrite: true, urlFor: (resource) => 'blob:' + resource.path });
+    expect(related.root.path).to.equal('2');
+    expect(related.html.trim()).to.equal('<img src="blob:1"><img src="b.gif">');
+  });
+
+  it('decodes an xhtml root with its charset', () => {
+    const mhtml = readMhtml(Buffer.concat([
+      Buffer.from('Content-Type: multipart/related; boundary="b"; type="application/xhtml+xml"\r\n\r\n--b\r\n'
+        + 'Content-Type: application/xhtml+xml; charset=iso-8859-1\r\nContent-Transfer-Encoding: 8bit\r\n\r\n<p>Gr'),
+      Buffer.from([0xfc, 0xdf]),
+      Buffer.from('e</p>\r\n--b--\r\n'),
+    ]));
+    expect(mhtml.root.contentType).to.equal('application/xhtml+xml');
+    expect(mhtml.html.trim()).to.equal('<p>Grüße</p>');
+  });
+});
+
+describe('streaming', () => {
+  it('emits headers, parts and decoded body chunks', () => {
+    const eml = fs.readFileSync(path.join(__dirname, './fixtures/emailWithAttachments.eml'));
+    const tree = toMimeTree(parseEml(new Uint8Array(eml)));
+    const events = [];
+    const bodies = {};
+    const parser = new EmlStreamParser((event) => {
+      events.push(event.type + ' ' + (event.path === undefined ? event.part.path : event.path));
+      if (event.type === 'body-chunk') {
+        bodies[event.part.path] = Buffer.concat([bodies[event.part.path] || Buffer.alloc(0), event.data]);
+      }
+      if (event.type === 'part-end' && bodies[event.part.path]) {
+        expect(event.size).to.equal(bodies[event.part.path].length);
+      }
+    });
+    for (let i = 0; i < eml.length; i += 100) {
+      parser.write(new Uint8Array(eml.subarray(i, i + 100)));
+    }
+    parser.end();
+
+    expect(events[0]).to.equal('header ');
+    expect(events.filter((event) => /^part-start/.test(event))).to.deep.equal([
+      'part-start ',
+      'part-start 1',
+      'part-start 1.1',
+      'part-start 1.2',
+      'part-start 2',
+      'part-start 3',
+    ]);
+    expect(events[events.length - 1]).to.equal('part-end ');
+    walkMimeTree(tree, (node) => {
+      if (node.content !== undefined) {
+        const expected = Buffer.from(node.content).toString().trim();
+        expect(bodies[node.path].toString().trim()).to.equal(expected);
+      }
+    });
+  });
+
+  it('ends parts without headers or body at the next delimiter', () => {
+    const events = [];
+    const parser = new EmlStreamParser((event) => {
+      if (event.type === 'part-start' || event.type === 'part-end') {
+        events.push(event.type + ' ' + event.part.path);
+      } else if (event.type === 'body-chunk') {
+        events.push('body ' + event.part.path + ' ' + new TextDecoder().decode(event.data));
+      }
+    });
+    parser.write('Content-Type: multipart/mixed; boundary="b"\r\n\r\n--b\r\n--b\r\nContent-Type: text/plain\r\n--b\r\n\r\nthird\r\n--b--\r\n');
+    parser.end();
+    expect(events).to.deep.equal([
+      'part-start ', 'part-start 1', 'part-end 1', 'part-start 2', 'part-end 2', 'part-start 3', 'body 3 third', 'part-end 3', 'part-end ',
+    ]);
+  });
+
+  it('reads a ReadableStream', async () => {
+    const eml = 'Subject: stream\r\nContent-Type: text/plain\r\nContent-Transfer-Encoding: quoted-printable\r\n\r\nGr=C3=BC=\r\n=C3=9Fe\r\n';
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(eml.substring(0, 40)));
+        controller.enqueue(new TextEncoder().encode(eml.substring(40)));
+        controller.close();
+      },
+    });
+    const chunks = [];
+    let subject;
+    await parseEmlStream(stream, (event) => {
+      if (event.type === 'header' && event.header.name === 'Subject') {
+        subject = event.header.value;
+      } else if (event.type === 'body-chunk') {
+        chunks.push(event.data);
+      }
+    });
+    expect(subject).to.equal('stream');
+    expect(new TextDecoder().decode(Buffer.concat(chunks))).to.equal('Grüße\r\n');
+
+    const failing = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('Subject: x\r\n\r\n'));
+        controller.close();
+      },
+    });
+    await parseEmlStream(failing, () => {
+      throw new Error('handler failed');
+    }).then(
+      () => assert.fail('expected a rejection'),
+      (e) => expect(e).to.be.instanceOf(EmlParseError)
+    );
+  });
+});
+
+describe('mbox', () => {
+  const mboxrd = [
+    'From sender@example.org Thu Sep 29 12:22:20 2022',
+    'From: sender@example.org',
+    'Subject: first',
+    'Content-Type: text/plain',
+    '',
+    '>From the start',
+    '>>From quoted',
+    '',
+    'From MAILER-DAEMON Fri Sep 30 08:00:00 2022',
+    'Subject: second',
+    '',
+    'body',
+    '',
+  ].join('\n');
+
+  it('splits messages lazily and unquotes >From lines', () => {
+    const reader = readMbox(mboxrd);
+    const first = reader.next().value;
+    expect(first.sender).to.equal('sender@example.org');
+    expect(first.date.toISOString()).to.equal('2022-09-29T12:22:20.000Z');
+    expect(first.eml.subject).to.equal('first');
+    expect(first.eml.text).to.equal('From the start\n>From quoted\n');
+    const messages = [first].concat(Array.from(reader));
+    expect(messages.map((message) => message.eml.subject)).to.deep.equal(['first', 'second']);
+    expect(messages[1].sender).to.equal('MAILER-DAEMON');
+    expect(new TextDecoder().decode(messages[1].raw)).to.equal('Subject: second\n\nbody\n');
+    expect(Array.from(parseMbox(mboxrd, { format: 'mboxo' })).map((message) => message.eml.headers.get('Subject'))).to.deep.equal(['first', 'second']);
+    expect(new TextDecoder().decode(parseMbox(mboxrd, { format: 'mboxo' }).next().value.raw)).to.contain('\n>>From quoted');
+  });
+
+  it('respects Content-Length of mboxcl2', () => {
+    const mboxcl2 = [
+      'From sender@example.org Thu Sep 29 12:22:20 2022',
+      'Subject: first',
+      'Content-Length: 20',
+      '',
+      'From the start\n',
+      'end',
+      '',
+      'From sender@example.org Thu Sep 29 12:22:21 2022',
+      'Subject: second',
+      'Content-Length: 5',
+      '',
+      'body',
+      '',
+    ].join('\n');
+    const messages = Array.from(parseMbox(mboxcl2, { format: 'mboxcl2' }));
+    expect(messages.length).to.equal(2);
+    expect(new TextDecoder().decode(messages[0].eml.body)).to.equal('From the start\n\nend\n');
+    expect(messages[1].eml.headers.get('Subject')).to.equal('second');
+    expect(() => parseMbox('Subject: no mbox\n\nbody')).to.throw(InvalidInputError);
+  });
+});
+
+describe('Outlook messages', () => {
+  //Saved by Outlook, with an attached message that has attachments itself
+  const embedded = new Uint8Array(fs.readFileSync(path.join(__dirname, './fixtures/outlookEmbeddedMessage.msg')));
+  //Received over SMTP, with its transport headers
+  const received = new Uint8Array(fs.readFileSync(path.join(__dirname, './fixtures/outlookReceived.msg')));
+
+  it('reads storages and streams of compound files', () => {
+    const cfb = new CompoundFile(embedded);
+    expect(cfb.root.children.map((entry) => entry.name)).to.include('__recip_version1.0_#00000003');
+    const attachment = cfb.child(cfb.root, '__ATTACH_VERSION1.0_#00000001');
+    expect(attachment.type).to.equal('storage');
+    expect(Buffer.from(cfb.read(cfb.child(attachment, '__substg1.0_3707001F'))).toString('utf16le')).to.equal('pigeon.jpg');
+    expect(() => new CompoundFile(new Uint8Array(512))).to.throw(InvalidInputError);
+  });
+
+  it('maps MAPI properties like readEml', () => {
+    const result = readMsg(embedded);
+    expect(result.subject).to.equal('Top level email');
+    expect(result.date.toISOString()).to.equal('2020-03-26T12:25:31.520Z');
+    expect(result.to.map((address) => address.email)).to.deep.equal(['someone1@gmail.com', 'someone2@gmail.com']);
+    expect(result.cc.map((address) => address.email)).to.deep.equal(['ccsomeoneelse1@gmail.com', 'ccsomeoneelse2@gmail.com']);
+    expect(result.headers.get('subject')).to.equal('Top level email');
+    expect(result.text).to.equal('Top level email text\r\n');
+    expect(result.html).to.contain('Top level email text');
+    expect(deEncapsulateRtf(decompressRtf(result.rtf)).type).to.equal('html');
+    expect(result.attachments.map((attachment) => attachment.name)).to.deep.equal(['Embedded email', 'pigeon.jpg']);
+    const pigeon = result.attachments[1];
+    expect(pigeon.size).to.equal(4916);
+    expect(Array.from(pigeon.data.subarray(0, 2))).to.deep.equal([0xff, 0xd8]);
+    expect(pigeon.modificationDate.toISOString()).to.equal('2020-03-26T12:05:10.120Z');
+    expect(readMsg(new Uint8Array(10))).to.be.instanceOf(InvalidInputError);
+  });
+
+  it('reads embedded messages', () => {
+    const attachment = readMsg(embedded).attachments[0];
+    expect(attachment.contentType).to.equal('message/rfc822');
+    expect(attachment.message.subject).to.equal('Embedded email');
+    expect(attachment.message.text).to.equal('Embedded email text\r\n');
+    expect(attachment.message.attachments.map((inner) => inner.name)).to.deep.equal(['dog.jpg', 'cat.jpg']);
+    const eml = readEml(attachment.data);
+    expect(eml.subject).to.equal('Embedded email');
+    expect(eml.headers.get('Message-ID')).to.equal('<MN2PR17MB2736DA6D08E2680988BF183BA1340@MN2PR17MB2736.namprd17.prod.outlook.com>');
+    expect(eml.attachments.map((inner) => inner.name)).to.deep.equal(['dog.jpg', 'cat.jpg']);
+  });
+
+  it('keeps the transport headers of received messages', () => {
+    const result = readMsg(received);
+    expect(result.subject).to.equal('asdf');
+    expect(result.from).to.deep.equal({ name: 'christoph@freiraum.xyz', email: 'christoph@freiraum.xyz' });
+    expect(result.headers.get('X-Mailer')).to.equal('Microsoft Outlook 16.0');
+    expect(result.headers.get('Received')).to.contain('by smtp.gmail.com');
+    expect(result.attachments[0]).to.include({ contentType: 'image/jpeg', size: 122784 });
+  });
+});
+
+describe('TNEF', () => {
+  //winmail.dat sent by Outlook with an image and a web page attached
+  const tnef = fs.readFileSync(path.join(__dirname, './fixtures/winmail.dat'));
+  const eml = [
+    'From: sender@example.com',
+    'Subject: TNEF',
+    'Content-Type: multipart/mixed; boundary="b"',
+    '',
+    '--b',
+    'Content-Type: application/ms-tnef; name="winmail.dat"',
+    'Content-Disposition: attachment; filename="winmail.dat"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    tnef.toString('base64').replace(/.{76}/g, '$&\r\n'),
+    '--b--',
+    '',
+  ].join('\r\n');
+
+  it('decodes winmail.dat into its attachments', () => {
+    const result = readEml(eml);
+    expect(result.attachments.map((found) => found.name)).to.deep.equal(['zappa_av1.jpg', 'bookmark.htm']);
+    const [image, page] = result.attachments;
+    expect(image.size).to.equal(2937);
+    expect(Array.from(image.data.subarray(0, 2))).to.deep.equal([0xff, 0xd8]);
+    expect(image.modificationDate.toISOString()).to.equal('2003-04-07T10:35:38.000Z');
+    expect(new TextDecoder().decode(page.data.subarray(0, 9))).to.equal('<!DOCTYPE');
+    expect(readEml(eml, { keepTnef: true }).attachments.map((found) => found.name)).to.deep.equal(['winmail.dat', 'zappa_av1.jpg', 'bookmark.htm']);
+  });
+
+  it('reads TNEF streams', () => {
+    const bytes = new Uint8Array(tnef);
+    const result = readTnef(bytes);
+    expect(result.date.toISOString()).to.equal('2003-06-17T15:23:00.000Z');
+    expect(result.attachments.map((attachment) => attachment.size)).to.deep.equal([2937, 85805]);
+    expect(new TextDecoder().decode(decompressRtf(result.rtf).subarray(0, 6))).to.equal('{\\rtf1');
+    expect(readTnef(bytes.subarray(0, 1000))).to.be.instanceOf(InvalidInputError);
+    expect(readTnef(new Uint8Array(10))).to.be.instanceOf(InvalidInputError);
+  });
+});
+
+describe('compressed RTF', () => {
+  const hex = (text) => new Uint8Array(Buffer.from(text.replace(/\s+/g, ''), 'hex'));
+
+  it('decompresses LZFu', () => {
+    //Examples of MS-OXRTFCP
+    const simple = hex('2d0000002b0000004c5a4675f1c5c7a703000a007263706731323542320af32068656c090020627705b06c647d0a800fa0');
+    expect(Buffer.from(decompressRtf(simple)).toString('latin1')).to.equal('{\\rtf1\\ansi\\ansicpg1252\\pard hello world}\r\n');
+    const repeated = hex('1a0000001c0000004c5a4675e2d44b51410004205758595a0d6e7d010eb0');
+    expect(Buffer.from(decompressRtf(repeated)).toString('latin1')).to.equal('{\\rtf1 WXYZWXYZWXYZWXYZWXYZ}');
+    expect(() => decompressRtf(new Uint8Array(20))).to.throw(InvalidInputError);
+  });
+
+  it('de-encapsulates html and text', () => {
+    const html = String.raw`{\rtf1\ansi\ansicpg1252\fromhtml1 \deff0{\fonttbl{\f0\fswiss Arial;}}{\*\htmltag19 <html>}\htmlrtf {\htmlrtf0 {\*\htmltag64 <p>}\htmlrtf {\htmlrtf0 Gr\'fc\'dfe \u8364?\htmlrtf\par}\htmlrtf0{\*\htmltag72 </p>}{\*\htmltag27 </html>}}}`;
+    expect(deEncapsulateRtf(html)).to.deep.equal({ type: 'html', content: '<html><p>Grüße €</p></html>' });
+    const text = String.raw`{\rtf1\ansi\fromtext \deff0{\fonttbl{\f0 Arial;}}Line 1\par Line\tab 2\par}`;
+    expect(deEncapsulateRtf(text)).to.deep.equal({ type: 'text', content: 'Line 1\r\nLine\t2\r\n' });
+    expect(deEncapsulateRtf('{\\rtf1\\ansi plain}')).to.equal(undefined);
+  });
+});
+
+describe('promise API', () => {
+  it('readEmlAsync resolves the read result', async () => {
+    const eml = fs.readFileSync(path.join(__dirname, './fixtures/smallEmail.eml'));
+    const readEmlJson = await readEmlAsync(eml);
+    expect(readEmlJson.from.email).to.equal('dummyEmail@emailClient.com');
+    const blobJson = await readEmlAsync(new Blob([eml]));
+    expect(blobJson.subject).to.equal(readEmlJson.subject);
+  });
+
+  it('rejects with typed errors', async () => {
+    const rejection = (promise) => promise.then(() => { throw new Error('resolved'); }, (error) => error);
+    expect(await rejection(readEmlAsync(42))).to.be.instanceOf(InvalidInputError);
+    expect(await rejection(parseEmlAsync('Subject: a\r\nno header\r\n\r\nbody', { strict: true }))).to.be.instanceOf(MalformedHeaderError);
+    expect(await rejection(parseEmlAsync('Content-Type: multipart/mixed\r\n\r\nbody', { strict: true }))).to.be.instanceOf(MissingBoundaryError);
+    expect(await rejection(parseEmlAsync('Content-Type: multipart/mixed; boundary=b\r\n\r\nbody', { strict: true }))).to.be.instanceOf(MissingBoundaryError);
+  });
+});
+
+describe('DKIM verification', () => {
+  const crypto = require('crypto');
+  const headers = 'From: Joe SixPack <joe@football.example.com>\r\nTo: Suzie Q <suzie@shopping.example.net>\r\nSubject: Is dinner ready?\r\n\tMore  words \r\n';
+  const body = 'Hi.\r\n\r\nWe lost the game.  Are you hungry yet? \r\n\r\nJoe.\r\n\r\n\r\n';
+  //relaxed canonicalization of the above, written out
+  const canonicalBody = 'Hi.\r\n\r\nWe lost the game. Are you hungry yet?\r\n\r\nJoe.\r\n';
+  const canonicalHeaders = 'from:Joe SixPack <joe@football.example.com>\r\nto:Suzie Q <suzie@shopping.example.net>\r\nsubject:Is dinner ready? More words\r\n';
+  const bh = crypto.createHash('sha256').update(canonicalBody).digest('base64');
+
+  function sign(algorithm, privateKey) {
+    const tags = `v=1; a=${algorithm}; c=relaxed/relaxed; d=example.com; s=test;\r\n h=from:to:subject; bh=${bh};\r\n b=`;
+    const data = Buffer.from(canonicalHeaders + 'dkim-signature:' + tags.replace(/\r\n /g, ' '));
+    const signature = algorithm === 'rsa-sha256'
+      ? crypto.sign('sha256', data, privateKey)
+      : crypto.sign(null, crypto.createHash('sha256').update(data).digest(), privateKey);
+    return 'DKIM-Signature: ' + tags + signature.toString('base64') + '\r\n' + headers + '\r\n' + body;
+  }
+
+  it('rsa-sha256 and ed25519-sha256 with injected keys', async () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ed25519 = crypto.generateKeyPairSync('ed25519');
+    const rsaRecord = 'v=DKIM1; k=rsa; p=' + rsa.publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+    const ed25519Record = 'v=DKIM1; k=ed25519; p=' + ed25519.publicKey.export({ type: 'spki', format: 'der' }).subarray(-32).toString('base64');
+
+    const [rsaResult] = await verifyDkim(sign('rsa-sha256', rsa.privateKey), { resolveKey: (selector, domain) => selector === 'test' && domain === 'example.com' ? rsaRecord : null });
+    expect(rsaResult.status).to.equal('pass');
+    expect(rsaResult.bodyHashMatches).to.equal(true);
+    const [ed25519Result] = await verifyDkim(Buffer.from(sign('ed25519-sha256', ed25519.privateKey)), { resolveKey: () => Promise.resolve(ed25519Record) });
+    expect(ed25519Result.status).to.equal('pass');
+
+    const tampered = await verifyDkim(sign('rsa-sha256', rsa.privateKey).replace('hungry', 'angry'), { resolveKey: () => rsaRecord });
+    expect(tampered[0].status).to.equal('fail');
+    expect(tampered[0].bodyHashMatches).to.equal(false);
+    const wrongKey = await verifyDkim(sign('rsa-sha256', rsa.privateKey), { resolveKey: () => ed25519Record });
+    expect(wrongKey[0].status).to.equal('permerror');
+    const missingKey = await verifyDkim(sign('rsa-sha256', rsa.privateKey), { resolveKey: () => null });
+    expect(missingKey[0].status).to.equal('permerror');
+    const lookupError = await verifyDkim(sign('rsa-sha256', rsa.privateKey), { resolveKey: () => Promise.reject(new Error('SERVFAIL')) });
+    expect(lookupError[0].status).to.equal('temperror');
+  });
+
+  it('empties only the value of the b= tag wherever it is', async () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const record = 'v=DKIM1; k=rsa; p=' + rsa.publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+    //b= before bh= and a tag whose name ends in b
+    const tags = (b) => `v=1; a=rsa-sha256; c=relaxed/relaxed; d=example.com; s=test; b=${b};\r\n xb=1; h=from:to:subject; bh=${bh}`;
+    const data = Buffer.from(canonicalHeaders + 'dkim-signature:' + tags('').replace(/\r\n /g, ' '));
+    const signature = crypto.sign('sha256', data, rsa.privateKey).toString('base64');
+    const eml = 'DKIM-Signature: ' + tags(signature) + '\r\n' + headers + '\r\n' + body;
+    const [result] = await verifyDkim(eml, { resolveKey: () => record });
+    expect(result.status).to.equal('pass');
+  });
+});
+
+describe('S/MIME', () => {
+  const signed = fs.readFileSync(path.join(__dirname, './fixtures/smimeSigned.eml'));
+  const opaque = fs.readFileSync(path.join(__dirname, './fixtures/smimeOpaque.eml'));
+
+  it('reads multipart/signed without the signature as attachment', () => {
+    const data = readEml(signed);
+    expect(data.text.trim()).to.equal('Hello signed world');
+    expect(data.html).to.contain('<p>Hello signed world</p>');
+    expect(data.attachments).to.equal(undefined);
+    expect(data.smime.type).to.equal('signed');
+    expect(data.smime.certificates).to.have.length(2);
+    const [signer] = data.smime.signers;
+    expect(signer.digestAlgorithm).to.equal('SHA-256');
+    expect(signer.signatureAlgorithm).to.equal('ECDSA');
+    expect(signer.signingTime).to.be.instanceOf(Date);
+    expect(signer.certificate.subject).to.equal('emailAddress=alice@example.com,CN=Alice Example,O=Example,C=DE');
+    expect(signer.certificate.issuer).to.equal('CN=Example Test CA,O=Example,C=DE');
+    expect(signer.certificate.commonName).to.equal('Alice Example');
+    expect(signer.certificate.serialNumber).to.equal('1a2b3c');
+    expect(signer.certificate.emails).to.deep.equal(['alice@example.com']);
+    expect(signer.certificate.publicKeyAlgorithm).to.equal('EC');
+    expect(signer.certificate.selfSigned).to.equal(false);
+  });
+
+  it('unwraps the entity of opaque signed data', () => {
+    const data = readEml(opaque.toString());
+    expect(data.subject).to.equal('Signed message');
+    expect(data.text.trim()).to.equal('Hello signed world');
+    expect(data.attachments).to.equal(undefined);
+    expect(data.smime.type).to.equal('opaque');
+    expect(data.smime.signers[0].certificate.commonName).to.equal('Alice Example');
+  });
+
+  it('verifies the signature and the certificate chain', async () => {
+    for (const eml of [signed, signed.toString(), opaque]) {
+      const [result] = await verifySmime(eml);
+      expect(result.status).to.equal('pass');
+      expect(result.digestMatches).to.equal(true);
+      expect(result.chainVerified).to.equal(true);
+      expect(result.chain.map((certificate) => certificate.commonName)).to.deep.equal(['Alice Example', 'Example Test CA']);
+    }
+    const tampered = await verifySmime(signed.toString().replace('Hello signed world\r\n--alt', 'Hello forged world\r\n--alt'));
+    expect(tampered[0].status).to.equal('fail');
+    expect(tampered[0].digestMatches).to.equal(false);
+    expect(await verifySmime('Subject: plain\r\n\r\nHello')).to.deep.equal([]);
+  });
+
+  it('verifies a nested signed part against its own lines', async () => {
+    const entity = signed.toString().split('\r\n').slice(4).join('\r\n');
+    const delimiter = /boundary="([^"]+)"/.exec(entity)[1];
+    //The delimiter of the signed part in an earlier part is no delimiter of it
+    const eml = 'Subject: forwarded\r\nContent-Type: multipart/mixed; boundary="outer"\r\n\r\n--outer\r\n'
+      + 'Content-Type: text/plain\r\n\r\n--' + delimiter + '\r\nNot signed\r\n--outer\r\n' + entity + '\r\n--outer--\r\n';
+    const [result] = await verifySmime(eml);
+    expect(result.status).to.equal('pass');
+    expect(readEml(eml).smime.type).to.equal('signed');
+  });
+
+  it('verifies a signed part whose boundary starts with the outer one', async () => {
+    const entity = signed.toString().split('\r\n').slice(4).join('\r\n');
+    const delimiter = /boundary="([^"]+)"/.exec(entity)[1];
+    const outer = delimiter.substring(0, delimiter.length - 1);
+    const eml = 'Subject: forwarded\r\nContent-Type: multipart/mixed; boundary="' + outer + '"\r\n\r\n--' + outer + '\r\n'
+      + entity + '\r\n--' + outer + '--\r\n';
+    const [result] = await verifySmime(eml);
+    expect(result.status).to.equal('pass');
+  });
+
+  it('does not verify a chain without a self-signed certificate', async () => {
+    const [result] = await verifySmime(fs.readFileSync(path.join(__dirname, './fixtures/smimeSignedLeaf.eml')));
+    expect(result.status).to.equal('pass');
+    expect(result.chain).to.have.length(1);
+    expect(result.chainVerified).to.equal(false);
+  });
+});